@@ -26,7 +26,9 @@ const esbuildProblemMatcherPlugin = {
 async function main() {
 	const ctx = await esbuild.context({
 		entryPoints: [
-			'src/extension.ts'
+			'src/extension.ts',
+			// Headless CLI for CI, built from the same counting and ignore code
+			'src/cli.ts'
 		],
 		bundle: true,
 		format: 'cjs',
@@ -34,7 +36,7 @@ async function main() {
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
+		outdir: 'dist',
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
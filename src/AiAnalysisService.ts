@@ -1,295 +1,665 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { FileTreeProvider } from './FileTreeProvider';
+import { DuplicateReport } from './DuplicateService';
+import { AiErrorKind, AiRequestError, ChatMessage, ChatRequest, redactSecrets, streamChat } from './aiChat';
+import { aiProviders, getAiProvider } from './aiProviders';
+import { ApiKeyStore } from './ApiKeyStore';
+import { estimateTokens, FileContext, fitFileContext } from './promptContext';
+import { renderMarkdown } from './markdownRenderer';
+import { AiAnalysisRecord, snapshotStats, StatsSnapshot } from './aiHistory';
+import { AiHistoryStore } from './AiHistoryStore';
+import { applySplitPlan, buildSplitPrompt, parseSplitPlan, SplitPlanError } from './splitPlan';
+import { getLanguage, getLanguageName, isRtl, t } from './localization';
 
 interface FileData {
     name: string;
+    path: string;
+    language: string;
     lineCount: number;
 }
 
-// Translations for AI service
-const aiTranslations: Record<string, Record<string, string>> = {
-    en: {
-        noApiKey: 'Gemini API key not configured. Please add your API key in settings.',
-        openSettings: 'Open Settings',
-        analyzing: 'Analyzing codebase with AI...',
-        analysisFailed: 'AI Analysis failed',
-        aiTitle: '🤖 AI Codebase Analysis'
-    },
-    he: {
-        noApiKey: 'מפתח API של Gemini לא מוגדר. אנא הוסף את המפתח שלך בהגדרות.',
-        openSettings: 'פתח הגדרות',
-        analyzing: 'מנתח את הקוד עם AI...',
-        analysisFailed: 'ניתוח AI נכשל',
-        aiTitle: '🤖 ניתוח קוד עם AI'
-    }
-};
+interface StatsData {
+    totalFiles: number;
+    totalLines: number;
+    averageLines: number;
+    largeFiles: FileData[];
+}
+
+// Clones listed in the prompt; the rest are only counted
+const MAX_PROMPT_CLONES = 10;
+// Large files considered for the prompt, largest first; the token budget usually ends sooner
+const MAX_PROMPT_FILES = 50;
+// Streamed answers are re-rendered at most this often
+const RENDER_INTERVAL_MS = 100;
+// The whole file goes into a split request, so very long ones would exceed most context windows
+const MAX_SPLIT_LINES = 5000;
+
+// Large file tree items, split recommendations, or an Explorer/editor Uri
+type SplitTarget = vscode.Uri | { filePath?: string };
+
+// One chat panel: the conversation so far and the request being streamed, if any
+interface ChatSession {
+    panel: vscode.WebviewPanel;
+    provider: string;
+    // Not needed by local providers
+    apiKey?: string;
+    model: string;
+    messages: ChatMessage[];
+    controller?: AbortController;
+    // Paths mentioned in answers, resolved to workspace files (undefined when there is no such file)
+    files: Map<string, string | undefined>;
+    // Identity in the AI history; conversations are saved after every answer
+    id: string;
+    createdAt: number;
+    stats?: StatsSnapshot;
+}
+
+// Combined totals plus the per-folder breakdown of a multi-root workspace
+interface WorkspaceData extends StatsData {
+    folders: (StatsData & { name: string })[];
+}
 
 export class AiAnalysisService {
     private fileTreeProvider: FileTreeProvider;
+    private apiKeys: ApiKeyStore;
+    private history: AiHistoryStore;
 
-    constructor(fileTreeProvider: FileTreeProvider) {
+    constructor(fileTreeProvider: FileTreeProvider, apiKeys: ApiKeyStore, history: AiHistoryStore) {
         this.fileTreeProvider = fileTreeProvider;
+        this.apiKeys = apiKeys;
+        this.history = history;
     }
 
-    private getLanguage(): string {
-        const config = vscode.workspace.getConfiguration('fileLineCounter');
-        return config.get<string>('language') || 'en';
-    }
+    async analyzeWithAI(): Promise<void> {
+        const credentials = await this.getCredentials();
+        if (!credentials) {
+            return;
+        }
+
+        let prompt: string;
+        let snapshot: StatsSnapshot;
+        try {
+            const stats = await this.fileTreeProvider.getWorkspaceStats();
+            const duplicates = await this.fileTreeProvider.getDuplicates();
+            prompt = await this.composePrompt(stats, duplicates);
+            snapshot = snapshotStats(stats, duplicates.summary.duplicatedLines, filePath => vscode.workspace.asRelativePath(filePath));
+        } catch (error) {
+            vscode.window.showErrorMessage(t('AI analysis failed: {0}', this.describeError(error)));
+            return;
+        }
+
+        if (vscode.workspace.getConfiguration('fileLineCounter').get<boolean>('aiPreviewPrompt', true)) {
+            const edited = await this.previewPrompt(prompt);
+            if (edited === undefined) {
+                return;
+            }
+            prompt = edited;
+        }
 
-    private t(key: string): string {
-        const lang = this.getLanguage();
-        return aiTranslations[lang]?.[key] || aiTranslations['en'][key] || key;
+        const session = await this.openChat(credentials.provider, credentials.apiKey);
+        if (!session) {
+            return;
+        }
+        session.stats = snapshot;
+        await this.ask(session, prompt, false);
     }
 
-    private isRtl(): boolean {
-        const lang = this.getLanguage();
-        return lang === 'he' || lang === 'ar';
+    // Reopens a saved analysis; follow-up questions continue it with the provider and model it used
+    async openAnalysis(id: string): Promise<void> {
+        const record = this.history.get(id);
+        if (!record) {
+            vscode.window.showWarningMessage(t('This AI analysis is no longer in the history.'));
+            return;
+        }
+        await this.openChat(record.provider, await this.apiKeys.get(record.provider), record);
     }
 
-    async analyzeWithAI(): Promise<void> {
-        const provider = this.getAiProvider();
-        const apiKey = this.getApiKey(provider);
-
-        if (!apiKey) {
-            const message = provider === 'Gemini' ? this.t('noApiKey') : `${provider} API key not configured.`;
-            const configure = await vscode.window.showWarningMessage(
-                message,
-                this.t('openSettings')
-            );
-            if (configure === this.t('openSettings')) {
-                // Open the new general apiKey setting
-                vscode.commands.executeCommand('workbench.action.openSettings', 'fileLineCounter.apiKey');
+    /**
+     * Asks the AI how to split one large file into modules and opens the result in the refactor
+     * preview, where the new files and the shortened original can be reviewed, then applied or discarded.
+     */
+    async proposeSplit(target?: SplitTarget): Promise<void> {
+        const uri = target instanceof vscode.Uri
+            ? target
+            : target?.filePath ? vscode.Uri.file(target.filePath) : vscode.window.activeTextEditor?.document.uri;
+        if (!uri || uri.scheme !== 'file') {
+            vscode.window.showWarningMessage(t('Open or select a file to split.'));
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const fileName = path.basename(uri.fsPath);
+        if (document.lineCount > MAX_SPLIT_LINES) {
+            vscode.window.showWarningMessage(t('{0} ({1} lines) is too long to send to the AI; the limit is {2}.', fileName, document.lineCount.toLocaleString(), MAX_SPLIT_LINES.toLocaleString()));
+            return;
+        }
+
+        const credentials = await this.getCredentials();
+        if (!credentials) {
+            return;
+        }
+
+        const content = document.getText();
+        const version = document.version;
+        const prompt = buildSplitPrompt({
+            path: vscode.workspace.asRelativePath(uri),
+            language: document.languageId,
+            content,
+            symbols: await this.fileTreeProvider.getSymbolMetrics().getSymbols(uri.fsPath)
+        }, getLanguageName());
+
+        let answer: string;
+        try {
+            answer = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: t('Asking AI how to split {0}...', fileName),
+                cancellable: true
+            }, (_progress, token) => {
+                const controller = new AbortController();
+                token.onCancellationRequested(() => controller.abort());
+                return streamChat({
+                    ...this.getRequestSettings(credentials.provider),
+                    apiKey: credentials.apiKey,
+                    messages: [{ role: 'user', content: prompt }],
+                    signal: controller.signal
+                }, () => { });
+            });
+        } catch (error) {
+            if (!(error instanceof Error && error.name === 'AbortError')) {
+                vscode.window.showErrorMessage(redactSecrets(t('Could not propose a split: {0}', this.describeError(error)), [credentials.apiKey]));
             }
             return;
         }
 
-        // Show progress
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: this.t('analyzing'),
-            cancellable: false
-        }, async () => {
-            try {
-                const stats = await this.fileTreeProvider.getWorkspaceStats();
-                // Unified call for all providers
-                const analysis = await this.callAiApi(apiKey, stats);
+        try {
+            if (document.version !== version) {
+                throw new Error(t('{0} changed while the split was being planned. Try again.', fileName));
+            }
+            const plan = parseSplitPlan(answer, uri.fsPath, document.lineCount);
+            const result = applySplitPlan(content, plan);
+
+            const edit = new vscode.WorkspaceEdit();
+            const directory = vscode.Uri.file(path.dirname(uri.fsPath));
+            for (const module of result.modules) {
+                const moduleUri = vscode.Uri.joinPath(directory, module.path);
+                if (await fs.promises.stat(moduleUri.fsPath).then(() => true, () => false)) {
+                    throw new Error(t('{0} already exists', module.path));
+                }
+                edit.createFile(moduleUri, { contents: Buffer.from(module.content, 'utf-8') }, {
+                    label: module.path,
+                    description: module.description,
+                    needsConfirmation: true
+                });
+            }
+            edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), result.original, {
+                label: fileName,
+                description: plan.summary,
+                needsConfirmation: true
+            });
 
-                this.showAnalysisPanel(analysis);
-            } catch (error) {
-                vscode.window.showErrorMessage(`${this.t('analysisFailed')}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            // Edits that need confirmation open the refactor preview instead of applying at once
+            await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+        } catch (error) {
+            const showAnswer = t('Show Answer');
+            const choice = await vscode.window.showErrorMessage(t('Could not propose a split: {0}', this.describeError(error)), showAnswer);
+            if (choice === showAnswer) {
+                const answerDocument = await vscode.workspace.openTextDocument({ language: 'markdown', content: answer });
+                await vscode.window.showTextDocument(answerDocument, { preview: false });
             }
-        });
+        }
+    }
+
+    // The configured provider and its key, asking for the key if the provider needs one and has none
+    private async getCredentials(): Promise<{ provider: string; apiKey?: string } | undefined> {
+        const provider = this.getAiProvider();
+        let apiKey = await this.apiKeys.get(provider);
+
+        if (!apiKey && getAiProvider(provider).requiresApiKey) {
+            const setApiKey = t('Set API Key');
+            const configure = await vscode.window.showWarningMessage(t('API key not set for {0}.', provider), setApiKey);
+            apiKey = configure === setApiKey ? await this.promptForApiKey(provider) : undefined;
+            if (!apiKey) {
+                return undefined;
+            }
+        }
+        return { provider, apiKey };
     }
 
     private getAiProvider(): string {
         const config = vscode.workspace.getConfiguration('fileLineCounter');
-        return config.get<string>('aiProvider') || 'Gemini';
+        const provider = config.get<string>('aiProvider');
+        return provider && aiProviders[provider] ? provider : 'Gemini';
     }
 
-    private getApiKey(provider: string): string | undefined {
-        const config = vscode.workspace.getConfiguration('fileLineCounter');
-        const key = config.get<string>('apiKey');
+    // Asks for a provider (the configured one first) and stores its key
+    async setApiKey(): Promise<void> {
+        const current = this.getAiProvider();
+        const providers = [current, ...Object.keys(aiProviders).filter(p => p !== current)];
+        const provider = await vscode.window.showQuickPick(providers, { placeHolder: t('AI provider') });
+        if (provider) {
+            await this.promptForApiKey(provider);
+        }
+    }
 
-        if (key && key.trim() !== '') {
-            return key.trim();
+    async clearApiKey(): Promise<void> {
+        const stored: string[] = [];
+        for (const provider of Object.keys(aiProviders)) {
+            if (await this.apiKeys.get(provider)) {
+                stored.push(provider);
+            }
+        }
+        if (stored.length === 0) {
+            vscode.window.showInformationMessage(t('No AI API keys are stored.'));
+            return;
         }
 
-        // Fallback for Gemini using the legacy setting
-        if (provider === 'Gemini') {
-            const oldKey = config.get<string>('geminiApiKey');
-            return oldKey && oldKey.trim() !== '' ? oldKey.trim() : undefined;
+        const provider = await vscode.window.showQuickPick(stored, { placeHolder: t('AI provider') });
+        if (provider) {
+            await this.apiKeys.delete(provider);
+            vscode.window.showInformationMessage(t('API key removed for {0}.', provider));
         }
+    }
 
-        return undefined;
+    private async promptForApiKey(provider: string): Promise<string | undefined> {
+        const key = await vscode.window.showInputBox({
+            prompt: t('API key for {0}', provider),
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (!key || key.trim() === '') {
+            return undefined;
+        }
+
+        await this.apiKeys.set(provider, key);
+        vscode.window.showInformationMessage(t('API key saved securely for {0}.', provider));
+        return key.trim();
     }
 
-    private async callAiApi(apiKey: string, stats: { totalFiles: number; totalLines: number; averageLines: number; largeFiles: FileData[] }): Promise<string> {
-        const config = vscode.workspace.getConfiguration('fileLineCounter');
-        const provider = this.getAiProvider();
-        const model = config.get<string>('aiModel');
-        const customUrl = config.get<string>('customUrl');
-
-        const prompt = this.buildPrompt(stats);
-
-        // Define default models
-        const defaultModels: Record<string, string> = {
-            'Gemini': 'gemini-2.0-flash',
-            'OpenAI': 'gpt-4o',
-            'Anthropic': 'claude-3-5-sonnet-20240620',
-            'DeepSeek': 'deepseek-chat',
-            'Custom': 'gpt-3.5-turbo' // Fallback for custom if not specified
-        };
+    private getModel(provider: string): string {
+        const model = vscode.workspace.getConfiguration('fileLineCounter').get<string>('aiModel');
+        return model && model.trim() !== '' ? model : getAiProvider(provider).defaultModel;
+    }
 
-        const selectedModel = model && model.trim() !== '' ? model : defaultModels[provider];
+    // Endpoint for providers that are not at a fixed address
+    private getBaseUrl(provider: string): string | undefined {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        if (provider === 'Custom') {
+            return config.get<string>('customUrl');
+        }
+        if (provider === 'Ollama') {
+            return config.get<string>('ollamaUrl') || undefined;
+        }
+        return undefined;
+    }
 
-        const header = `> **Analysis by:** ${provider} | **Model:** ${selectedModel}\n\n`;
+    // Opens a chat panel and resolves once its script is ready to receive messages, or with undefined if it is closed first
+    private openChat(provider: string, apiKey: string | undefined, record?: AiAnalysisRecord): Promise<ChatSession | undefined> {
+        const panel = vscode.window.createWebviewPanel(
+            'aiAnalysis',
+            t('🤖 AI Codebase Analysis'),
+            vscode.ViewColumn.One,
+            // Keeps the conversation when the panel is moved to the background
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
 
-        if (provider === 'Gemini') {
-            const url = `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${apiKey}`;
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] })
+        const session: ChatSession = {
+            panel,
+            provider,
+            apiKey,
+            model: record?.model || this.getModel(provider),
+            messages: record ? [...record.messages] : [],
+            files: new Map(),
+            id: record?.id || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            createdAt: record?.createdAt || Date.now(),
+            stats: record?.stats
+        };
+        panel.webview.html = this.getWebviewContent(session);
+
+        return new Promise(resolve => {
+            panel.webview.onDidReceiveMessage(message => {
+                if (message.type === 'ready') {
+                    // A reopened analysis shows what was said before, without the prompt
+                    for (const previous of session.messages.slice(1)) {
+                        panel.webview.postMessage({ type: 'message', role: previous.role, html: this.render(session, previous.content) });
+                    }
+                    resolve(session);
+                } else if (message.type === 'ask' && !session.controller && typeof message.text === 'string') {
+                    this.ask(session, message.text, true);
+                } else if (message.type === 'stop') {
+                    session.controller?.abort();
+                } else if (message.type === 'openFile' && typeof message.path === 'string') {
+                    this.openFileReference(session, message.path, message.line);
+                } else if (message.type === 'copy') {
+                    vscode.env.clipboard.writeText(this.exportMarkdown(session))
+                        .then(() => vscode.window.showInformationMessage(t('AI analysis copied to the clipboard.')));
+                } else if (message.type === 'save') {
+                    this.saveAnalysis(session);
+                }
             });
-
-            if (!response.ok) {
-                throw new Error(`Gemini API request failed. Model: ${selectedModel}, URL: ${url}, Status: ${response.status} - ${await response.text()}`);
-            }
-            const data = await response.json() as { candidates?: { content?: { parts?: { text?: string }[] } }[] };
-            const text = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response from AI';
-            return header + text;
-        }
-
-        if (provider === 'Anthropic') {
-            const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                    'x-api-key': apiKey,
-                    'anthropic-version': '2023-06-01',
-                    'content-type': 'application/json'
-                },
-                body: JSON.stringify({
-                    model: selectedModel,
-                    max_tokens: 1024,
-                    messages: [{ role: 'user', content: prompt }]
-                })
+            panel.onDidDispose(() => {
+                session.controller?.abort();
+                resolve(undefined);
             });
+        });
+    }
 
-            if (!response.ok) {
-                throw new Error(`Anthropic API request failed: ${response.status} - ${await response.text()}`);
-            }
-            const data = await response.json() as { content?: { text?: string }[] };
-            const text = data.content?.[0]?.text || 'No response from AI';
-            return header + text;
-        }
-
-        // OpenAI, DeepSeek, and Custom (assuming OpenAI-compatible)
-        let baseUrl = '';
-        if (provider === 'OpenAI') {
-            baseUrl = 'https://api.openai.com/v1/chat/completions';
-        } else if (provider === 'DeepSeek') {
-            baseUrl = 'https://api.deepseek.com/chat/completions';
-        } else if (provider === 'Custom') {
-            if (!customUrl || customUrl.trim() === '') {
-                throw new Error('Custom URL is required for Custom provider');
-            }
-            baseUrl = customUrl.endsWith('/') ? customUrl + 'chat/completions' : customUrl + '/chat/completions';
-            // If user entered full path including chat/completions, trust it (heuristic check could be added)
-            if (customUrl.includes('/chat/completions')) {
-                baseUrl = customUrl;
-            }
+    /**
+     * Sends a question with the conversation so far and streams the answer into the panel.
+     * The analysis prompt itself is not shown; follow-up questions are.
+     */
+    private async ask(session: ChatSession, question: string, showQuestion: boolean): Promise<void> {
+        const post = (message: object) => session.panel.webview.postMessage(message);
+        const controller = new AbortController();
+        session.controller = controller;
+        session.messages.push({ role: 'user', content: question });
+
+        if (showQuestion) {
+            post({ type: 'message', role: 'user', html: this.render(session, question) });
         }
+        post({ type: 'message', role: 'assistant', html: '' });
+        post({ type: 'busy', busy: true });
+
+        let answer = '';
+        let renderTimer: NodeJS.Timeout | undefined;
+        const render = (suffix = '') => {
+            renderTimer = undefined;
+            post({ type: 'update', html: this.render(session, answer + suffix) });
+        };
 
-        const response = await fetch(baseUrl, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json',
-                // Optional headers for OpenRouter and others
-                'HTTP-Referer': 'https://github.com/eitan-baron/file-line-counter',
-                'X-Title': 'File Line Counter VS Code Extension'
-            },
-            body: JSON.stringify({
-                model: selectedModel,
-                messages: [{ role: 'user', content: prompt }]
-            })
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: t('Analyzing codebase with AI...'),
+            cancellable: true
+        }, async (_progress, token) => {
+            token.onCancellationRequested(() => controller.abort());
+            try {
+                await streamChat({
+                    ...this.getRequestSettings(session.provider),
+                    apiKey: session.apiKey,
+                    model: session.model,
+                    messages: session.messages,
+                    signal: controller.signal
+                }, text => {
+                    answer += text;
+                    // Re-rendering on every token would flood the webview
+                    renderTimer ??= setTimeout(render, RENDER_INTERVAL_MS);
+                });
+                clearTimeout(renderTimer);
+                render();
+            } catch (error) {
+                clearTimeout(renderTimer);
+                if (controller.signal.aborted) {
+                    render(`\n\n*${t('Stopped.')}*`);
+                } else {
+                    const message = redactSecrets(t('AI analysis failed: {0}', this.describeError(error)), [session.apiKey]);
+                    render();
+                    post({ type: 'error', message });
+                    vscode.window.showErrorMessage(message);
+                }
+            }
         });
 
-        if (!response.ok) {
-            throw new Error(`${provider} API request failed. URL: ${baseUrl}, KeyLength: ${apiKey.length}, Status: ${response.status} - ${await response.text()}`);
+        // A question without an answer is dropped so the next one starts from a valid conversation
+        if (answer) {
+            session.messages.push({ role: 'assistant', content: answer });
+            await this.saveToHistory(session);
+        } else {
+            session.messages.pop();
+        }
+        session.controller = undefined;
+        post({ type: 'busy', busy: false });
+    }
+
+    private async saveToHistory(session: ChatSession): Promise<void> {
+        if (!session.stats) {
+            return;
         }
-        const data = await response.json() as { choices?: { message?: { content?: string } }[] };
-        const text = data.choices?.[0]?.message?.content || 'No response from AI';
-        return header + text;
+        await this.history.save({
+            id: session.id,
+            createdAt: session.createdAt,
+            provider: session.provider,
+            model: session.model,
+            stats: session.stats,
+            messages: [...session.messages]
+        });
     }
 
-    private buildPrompt(stats: { totalFiles: number; totalLines: number; averageLines: number; largeFiles: FileData[] }): string {
-        const lang = this.getLanguage();
-        const largeFilesList = stats.largeFiles
-            .map(f => `- ${f.name}: ${f.lineCount} lines`)
-            .join('\n');
+    // Everything a request needs from the settings, apart from the conversation itself
+    private getRequestSettings(provider: string): Omit<ChatRequest, 'messages'> {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return {
+            provider,
+            model: this.getModel(provider),
+            baseUrl: this.getBaseUrl(provider),
+            maxOutputTokens: config.get<number>('aiMaxOutputTokens') || 4096,
+            timeoutMs: (config.get<number>('aiRequestTimeoutSeconds') || 60) * 1000,
+            maxRetries: config.get<number>('aiMaxRetries') ?? 3
+        };
+    }
 
-        if (lang === 'he') {
-            return `אתה מומחה לסקירת קוד. נתח את הסטטיסטיקות של הקוד הבא ותן המלצות מעשיות.
+    /**
+     * Builds the prompt with an outline (and optionally code) of the largest files, using whatever
+     * part of `aiPromptTokenBudget` the statistics leave over.
+     */
+    private async composePrompt(stats: WorkspaceData, duplicates: DuplicateReport): Promise<string> {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        const budget = config.get<number>('aiPromptTokenBudget') || 8000;
+        const excerptLines = config.get<boolean>('aiIncludeCode') ? config.get<number>('aiExcerptLines') || 40 : 0;
+        const symbolMetrics = this.fileTreeProvider.getSymbolMetrics();
+        const registry = this.fileTreeProvider.getLanguageRegistry();
+
+        const largest = [...stats.largeFiles].sort((a, b) => b.lineCount - a.lineCount).slice(0, MAX_PROMPT_FILES);
+        const files: FileContext[] = [];
+        for (const file of largest) {
+            files.push({
+                path: vscode.workspace.asRelativePath(file.path),
+                language: file.language,
+                lines: file.lineCount,
+                symbols: registry.isCode(file.language) ? await symbolMetrics.getSymbols(file.path) : [],
+                content: excerptLines > 0 ? await fs.promises.readFile(file.path, 'utf-8').catch(() => undefined) : undefined
+            });
+        }
 
-## סטטיסטיקות הקוד:
-- סה"כ קבצים: ${stats.totalFiles}
-- סה"כ שורות: ${stats.totalLines.toLocaleString()}
-- ממוצע שורות לקובץ: ${stats.averageLines}
+        const remaining = Math.max(0, budget - estimateTokens(this.buildPrompt(stats, duplicates, '')));
+        const fitted = fitFileContext(files, remaining, excerptLines);
+        const omitted = stats.largeFiles.length - fitted.files;
+        return this.buildPrompt(stats, duplicates, omitted > 0 ? `${fitted.text}\n\n(+${omitted} more large files left out to stay within the token budget)` : fitted.text);
+    }
 
-## קבצים גדולים (מועמדים לשיפור):
-${largeFilesList || 'אין'}
+    // Shows the prompt in an editor for review; resolves with the edited text, or undefined if not sent
+    private async previewPrompt(prompt: string): Promise<string | undefined> {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: prompt });
+        await vscode.window.showTextDocument(document, { preview: false });
 
-אנא ספק:
-1. הערכה כללית של מבנה הקוד
-2. המלצות ספציפיות לכל קובץ גדול (אם יש)
-3. הצעות לשיטות עבודה מומלצות לארגון קבצים
-4. פעולות עדיפות לשיפור התחזוקה
+        const send = t('Send');
+        const choice = await vscode.window.showInformationMessage(
+            t('Review and edit the AI prompt, then send it (~{0} tokens)', estimateTokens(prompt).toLocaleString()),
+            send,
+            t('Cancel')
+        );
+        const edited = document.getText();
 
-פרמט את התשובה בMarkdown עם סקציות ברורות. כתוב בעברית.`;
+        // Close the draft without asking to save it
+        if (vscode.window.activeTextEditor?.document === document) {
+            await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
         }
+        return choice === send && edited.trim() !== '' ? edited : undefined;
+    }
 
+    private buildPrompt(stats: WorkspaceData, duplicates: DuplicateReport, largeFilesList: string): string {
+        const location = (l: { filePath: string; startLine: number; endLine: number }) =>
+            `${vscode.workspace.asRelativePath(l.filePath)}:${l.startLine + 1}-${l.endLine + 1}`;
+        const { summary } = duplicates;
+        const duplicatesList = summary.clones > 0
+            ? [
+                `- ${summary.clones} duplicated blocks, ${summary.duplicatedLines.toLocaleString()} duplicated lines across ${summary.files} files`,
+                ...duplicates.clones
+                    .slice(0, MAX_PROMPT_CLONES)
+                    .map(c => `- ${location(c.duplicate)} repeats ${location(c.original)} (${c.lines} lines)`)
+            ].join('\n')
+            : '';
+
+        // Only multi-root workspaces get a per-folder section
+        const foldersList = stats.folders.length > 1
+            ? stats.folders
+                .map(f => `- ${f.name}: ${f.totalFiles} files, ${f.totalLines.toLocaleString()} lines, avg ${f.averageLines}, ${f.largeFiles.length} large`)
+                .join('\n')
+            : '';
+
+        // The prompt is always English; only the answer follows the UI language
+        const language = getLanguageName();
         return `You are a code review expert. Analyze this codebase statistics and provide actionable recommendations.
 
 ## Codebase Statistics:
 - Total Files: ${stats.totalFiles}
 - Total Lines: ${stats.totalLines.toLocaleString()}
 - Average Lines per File: ${stats.averageLines}
-
+${foldersList ? `\n## Per-Folder Breakdown:\n${foldersList}\n` : ''}
 ## Large Files (potential refactoring candidates):
 ${largeFilesList || 'None'}
 
+## Duplicated Code (copy-paste found by token comparison):
+${duplicatesList || 'None'}
+
 Please provide:
 1. Overall assessment of the codebase structure
-2. Specific recommendations for each large file (if any)
+2. Specific recommendations for each large file (if any)${foldersList ? ', and for each folder' : ''}${duplicatesList ? ', including how to remove the duplicated code' : ''}
 3. Best practices suggestions for file organization
 4. Priority actions to improve maintainability
 
-Format your response in Markdown with clear sections.`;
+Format your response in Markdown with clear sections.${language ? ` Write your answer in ${language}.` : ''}`;
     }
 
-    private showAnalysisPanel(analysis: string): void {
-        const panel = vscode.window.createWebviewPanel(
-            'aiAnalysis',
-            this.t('aiTitle'),
-            vscode.ViewColumn.One,
-            { enableScripts: true }
-        );
+    // Provider, model and date, above the conversation and at the top of exports
+    private describeSession(session: ChatSession): string {
+        return t('**Analysis by:** {0} | **Model:** {1} | {2}', session.provider, session.model, new Date(session.createdAt).toLocaleString());
+    }
+
+    // The reason in the UI language, followed by the provider's own message
+    private describeError(error: unknown): string {
+        if (!(error instanceof Error)) {
+            return t('Unknown error');
+        }
+        if (error instanceof SplitPlanError) {
+            return t(error.template, ...error.args);
+        }
+        if (!(error instanceof AiRequestError)) {
+            return error.message;
+        }
+        const reasons: Record<AiErrorKind, string> = {
+            auth: t('The API key was rejected.'),
+            notFound: t('The model or endpoint was not found.'),
+            badRequest: t('The request was rejected.'),
+            rateLimit: t('The rate limit was exceeded; try again later.'),
+            server: t('The AI provider had a server error.'),
+            timeout: t('The AI provider did not respond in time.'),
+            network: t('Could not connect to the AI provider.'),
+            stream: t('The answer stream failed.')
+        };
+        return `${reasons[error.kind]} ${error.message}`;
+    }
+
+    // Answers are rendered with links for the workspace files they mention
+    private render(session: ChatSession, text: string): string {
+        return renderMarkdown(text, { isFile: reference => this.resolveFile(session, reference) !== undefined });
+    }
+
+    /**
+     * Finds the file a path in an answer refers to: relative to a workspace folder, or starting
+     * with the folder's name as multi-root workspaces write it. Paths outside the workspace are not followed.
+     */
+    private resolveFile(session: ChatSession, reference: string): string | undefined {
+        if (session.files.has(reference)) {
+            return session.files.get(reference);
+        }
+
+        let resolved: string | undefined;
+        const [first, ...rest] = reference.replace(/\\/g, '/').split('/');
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const candidates = [path.join(folder.uri.fsPath, reference)];
+            if (first === folder.name && rest.length > 0) {
+                candidates.push(path.join(folder.uri.fsPath, ...rest));
+            }
+            resolved = candidates.find(candidate => {
+                const relative = path.relative(folder.uri.fsPath, candidate);
+                return !relative.startsWith('..') && !path.isAbsolute(relative) && fs.statSync(candidate, { throwIfNoEntry: false })?.isFile();
+            });
+            if (resolved) {
+                break;
+            }
+        }
+
+        session.files.set(reference, resolved);
+        return resolved;
+    }
+
+    private async openFileReference(session: ChatSession, reference: string, line: unknown): Promise<void> {
+        const filePath = this.resolveFile(session, reference);
+        if (!filePath) {
+            return;
+        }
+        const position = typeof line === 'number' && line > 0 ? new vscode.Position(line - 1, 0) : undefined;
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath), {
+            viewColumn: vscode.ViewColumn.Beside,
+            selection: position && new vscode.Range(position, position)
+        });
+    }
 
-        panel.webview.html = this.getWebviewContent(analysis);
+    // The conversation as Markdown; the analysis prompt itself is left out, follow-up questions are quoted
+    private exportMarkdown(session: ChatSession): string {
+        const parts = [
+            `# ${t('🤖 AI Codebase Analysis')}`,
+            this.describeSession(session)
+        ];
+        session.messages.slice(1).forEach(message => {
+            parts.push(message.role === 'user'
+                ? `---\n\n> **${t('Question:')}** ${message.content.replace(/\n/g, '\n> ')}`
+                : message.content);
+        });
+        return parts.join('\n\n') + '\n';
+    }
+
+    private async saveAnalysis(session: ChatSession): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `ai-analysis-${new Date().toISOString().slice(0, 10)}.md`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: { Markdown: ['md'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            await fs.promises.writeFile(uri.fsPath, this.exportMarkdown(session), 'utf-8');
+            vscode.window.showInformationMessage(t('AI analysis saved to {0}', vscode.workspace.asRelativePath(uri)));
+        } catch (error) {
+            vscode.window.showErrorMessage(t('AI analysis failed: {0}', this.describeError(error)));
+        }
     }
 
-    private getWebviewContent(analysis: string): string {
-        const isRtl = this.isRtl();
-        const direction = isRtl ? 'rtl' : 'ltr';
-        const textAlign = isRtl ? 'right' : 'left';
-
-        // Simple markdown-like rendering
-        const htmlContent = analysis
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;')
-            .replace(/^## (.+)$/gm, '<h2>$1</h2>')
-            .replace(/^### (.+)$/gm, '<h3>$1</h3>')
-            .replace(/^# (.+)$/gm, '<h1>$1</h1>')
-            .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-            .replace(/\*(.+?)\*/g, '<em>$1</em>')
-            .replace(/`(.+?)`/g, '<code>$1</code>')
-            .replace(/^- (.+)$/gm, '<li>$1</li>')
-            .replace(/^(\d+)\. (.+)$/gm, '<li>$2</li>')
-            .replace(/\n\n/g, '</p><p>')
-            .replace(/\n/g, '<br>');
+    private getWebviewContent(session: ChatSession): string {
+        const rtl = isRtl();
+        const direction = rtl ? 'rtl' : 'ltr';
+        const textAlign = rtl ? 'right' : 'left';
+        const start = rtl ? 'right' : 'left';
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+        const meta = renderMarkdown(this.describeSession(session));
 
+        // Nothing is loaded from outside the panel, and only the nonced style and script run
         return `<!DOCTYPE html>
-<html lang="${this.getLanguage()}" dir="${direction}">
+<html lang="${getLanguage()}" dir="${direction}">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>AI Analysis</title>
-    <style>
+    <title>${t('AI Analysis')}</title>
+    <style nonce="${nonce}">
         body {
             font-family: var(--vscode-font-family);
-            padding: 20px;
+            padding: 20px 20px 120px;
             line-height: 1.8;
             color: var(--vscode-foreground);
             background-color: var(--vscode-editor-background);
@@ -311,20 +681,178 @@ Format your response in Markdown with clear sections.`;
             direction: ltr;
             unicode-bidi: embed;
         }
+        pre {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 10px 12px;
+            border-radius: 4px;
+            overflow-x: auto;
+            line-height: 1.5;
+            direction: ltr;
+            text-align: left;
+        }
+        pre code { padding: 0; background: none; }
+        table { border-collapse: collapse; margin: 1em 0; }
+        th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 10px; }
+        th { background: var(--vscode-textBlockQuote-background); }
+        .align-left { text-align: left; }
+        .align-center { text-align: center; }
+        .align-right { text-align: right; }
+        blockquote {
+            margin: 1em 0;
+            padding: 0 1em;
+            border-${start}: 3px solid var(--vscode-textBlockQuote-border);
+            background: var(--vscode-textBlockQuote-background);
+        }
         li {
             margin: 0.5em 0;
-            padding-${isRtl ? 'right' : 'left'}: 0.5em;
+            padding-${start}: 0.5em;
         }
         ul, ol {
-            padding-${isRtl ? 'right' : 'left'}: 1.5em;
+            padding-${start}: 1.5em;
         }
+        a { color: var(--vscode-textLink-foreground); }
+        a:hover { color: var(--vscode-textLink-activeForeground); }
         strong {
             color: var(--vscode-textPreformat-foreground);
         }
+        /* Code highlighting in the colors of the current theme */
+        .hljs-keyword, .hljs-literal, .hljs-built_in, .hljs-selector-tag { color: var(--vscode-symbolIcon-keywordForeground); }
+        .hljs-string, .hljs-regexp, .hljs-char\\.escape_ { color: var(--vscode-debugTokenExpression-string); }
+        .hljs-number { color: var(--vscode-debugTokenExpression-number); }
+        .hljs-comment, .hljs-quote { color: var(--vscode-descriptionForeground); font-style: italic; }
+        .hljs-title, .hljs-section { color: var(--vscode-symbolIcon-functionForeground); }
+        .hljs-type, .hljs-title\\.class_ { color: var(--vscode-symbolIcon-classForeground); }
+        .hljs-attr, .hljs-attribute, .hljs-property, .hljs-variable, .hljs-params { color: var(--vscode-symbolIcon-variableForeground); }
+        .hljs-meta, .hljs-tag, .hljs-name, .hljs-symbol { color: var(--vscode-symbolIcon-constantForeground); }
+        .hljs-addition { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .hljs-deletion { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+        .header { display: flex; align-items: center; gap: 8px; }
+        .meta { flex: 1; margin: 0; opacity: 0.8; border-${start}: 3px solid var(--vscode-textBlockQuote-border); padding-${start}: 10px; }
+        .meta p { margin: 0; }
+        .message.user {
+            background: var(--vscode-textBlockQuote-background);
+            border-radius: 6px;
+            padding: 4px 12px;
+            margin-top: 1.5em;
+        }
+        .message.assistant:empty::after { content: '…'; }
+        .message.error { color: var(--vscode-errorForeground); }
+        form {
+            position: fixed;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            display: flex;
+            gap: 8px;
+            padding: 12px 20px;
+            background: var(--vscode-editor-background);
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+        textarea {
+            flex: 1;
+            resize: none;
+            font: inherit;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 6px;
+        }
+        button {
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+        }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button:disabled { opacity: 0.5; cursor: default; }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
     </style>
 </head>
 <body>
-    <p>${htmlContent}</p>
+    <div class="header">
+        <div class="meta">${meta}</div>
+        <button type="button" id="copy" class="secondary">${t('Copy')}</button>
+        <button type="button" id="save" class="secondary">${t('Save as Markdown')}</button>
+    </div>
+    <div id="messages"></div>
+    <form id="ask">
+        <textarea id="question" rows="2" placeholder="${t('Ask a follow-up question (Enter to send, Shift+Enter for a new line)')}"></textarea>
+        <button type="submit" id="send">${t('Send')}</button>
+        <button type="button" id="stop" class="secondary" hidden>${t('Stop')}</button>
+    </form>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const messages = document.getElementById('messages');
+        const question = document.getElementById('question');
+        const send = document.getElementById('send');
+        const stop = document.getElementById('stop');
+        let current;
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            const followBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 40;
+            switch (message.type) {
+                case 'message': {
+                    const div = document.createElement('div');
+                    div.className = 'message ' + message.role;
+                    div.innerHTML = message.html;
+                    messages.appendChild(div);
+                    if (message.role === 'assistant') {
+                        current = div;
+                    }
+                    break;
+                }
+                case 'update':
+                    current.innerHTML = message.html;
+                    break;
+                case 'error': {
+                    const div = document.createElement('div');
+                    div.className = 'message error';
+                    div.textContent = message.message;
+                    messages.appendChild(div);
+                    break;
+                }
+                case 'busy':
+                    send.disabled = message.busy;
+                    stop.hidden = !message.busy;
+                    break;
+            }
+            // Only keep scrolling while the reader is at the end of the answer
+            if (followBottom) {
+                window.scrollTo(0, document.body.scrollHeight);
+            }
+        });
+
+        // Files mentioned in answers open in the editor next to the panel
+        messages.addEventListener('click', event => {
+            const link = event.target.closest('a.file-link');
+            if (link) {
+                event.preventDefault();
+                vscode.postMessage({ type: 'openFile', path: link.dataset.file, line: link.dataset.line ? Number(link.dataset.line) : undefined });
+            }
+        });
+
+        document.getElementById('ask').addEventListener('submit', event => {
+            event.preventDefault();
+            const text = question.value.trim();
+            if (text && !send.disabled) {
+                vscode.postMessage({ type: 'ask', text });
+                question.value = '';
+            }
+        });
+        question.addEventListener('keydown', event => {
+            if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                document.getElementById('ask').requestSubmit();
+            }
+        });
+        stop.addEventListener('click', () => vscode.postMessage({ type: 'stop' }));
+        document.getElementById('copy').addEventListener('click', () => vscode.postMessage({ type: 'copy' }));
+        document.getElementById('save').addEventListener('click', () => vscode.postMessage({ type: 'save' }));
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
 </body>
 </html>`;
     }
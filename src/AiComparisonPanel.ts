@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { AiHistoryStore } from './AiHistoryStore';
+import { AiAnalysisRecord, Change, compareStats, StatsMetric } from './aiHistory';
+import { renderMarkdown } from './markdownRenderer';
+import { getLanguage, isRtl, t } from './localization';
+
+// Labels of the statistics table, in the UI language
+function metricLabel(metric: StatsMetric): string {
+    const labels: Record<StatsMetric, string> = {
+        totalFiles: t('Total files'),
+        totalLines: t('Total lines'),
+        averageLines: t('Average lines per file'),
+        codeLines: t('Code lines'),
+        commentLines: t('Comment lines'),
+        largeFiles: t('Large files'),
+        duplicatedLines: t('Duplicated lines')
+    };
+    return labels[metric];
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Two saved AI analyses side by side, below a table of how the workspace statistics changed
+ * between them.
+ */
+export class AiComparisonPanel {
+    constructor(private readonly history: AiHistoryStore) { }
+
+    // Compares `firstId` (or a picked analysis) with a second one picked from the rest
+    async compare(firstId?: string): Promise<void> {
+        const records = this.history.list();
+        if (records.length < 2) {
+            vscode.window.showInformationMessage(t('At least two saved AI analyses are needed for a comparison.'));
+            return;
+        }
+
+        const first = firstId ? records.find(r => r.id === firstId) : await this.pick(records, t('AI analysis to compare'));
+        if (!first) {
+            return;
+        }
+        const second = await this.pick(records.filter(r => r.id !== first.id), t('Compare with...'));
+        if (!second) {
+            return;
+        }
+
+        const [older, newer] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+        const panel = vscode.window.createWebviewPanel('aiComparison', t('🕘 AI Analysis Comparison'), vscode.ViewColumn.One, {});
+        panel.webview.html = this.getWebviewContent(older, newer);
+    }
+
+    private async pick(records: AiAnalysisRecord[], placeHolder: string): Promise<AiAnalysisRecord | undefined> {
+        const picked = await vscode.window.showQuickPick(records.map(record => ({
+            label: new Date(record.createdAt).toLocaleString(),
+            description: `${record.provider} · ${record.model}`,
+            // The start of the first answer, usually its heading
+            detail: record.messages[1]?.content.split('\n').find(line => line.trim() !== '')?.replace(/^[#>*\s-]+/, '').slice(0, 100),
+            record
+        })), { placeHolder, matchOnDetail: true });
+        return picked?.record;
+    }
+
+    private formatChange(change: Change): string {
+        const difference = change.after - change.before;
+        if (difference === 0) {
+            return '0';
+        }
+        const percent = change.before !== 0 ? ` (${difference > 0 ? '+' : '−'}${Math.abs(Math.round(difference / change.before * 100))}%)` : '';
+        return `${difference > 0 ? '+' : '−'}${Math.abs(difference).toLocaleString()}${percent}`;
+    }
+
+    private changeTable(heading: string, firstColumn: string, rows: (Change & { label: string })[]): string {
+        if (rows.length === 0) {
+            return `<h2>${heading}</h2><p class="muted">${t('No changes')}</p>`;
+        }
+        const cells = rows.map(row => {
+            const direction = row.after > row.before ? 'up' : row.after < row.before ? 'down' : '';
+            return `<tr><td>${escapeHtml(row.label)}</td><td class="number">${row.before.toLocaleString()}</td><td class="number">${row.after.toLocaleString()}</td><td class="number ${direction}">${this.formatChange(row)}</td></tr>`;
+        }).join('');
+        return `<h2>${heading}</h2>
+<table>
+    <tr><th>${firstColumn}</th><th>${t('Before')}</th><th>${t('After')}</th><th>${t('Change')}</th></tr>
+    ${cells}
+</table>`;
+    }
+
+    // Answers as rendered Markdown; follow-up questions are set apart, the prompt is left out
+    private renderConversation(record: AiAnalysisRecord): string {
+        const messages = record.messages.slice(1).map(message => message.role === 'user'
+            ? `<div class="question"><strong>${t('Question:')}</strong> ${renderMarkdown(message.content)}</div>`
+            : renderMarkdown(message.content));
+        return `<section>
+    <h2>${escapeHtml(new Date(record.createdAt).toLocaleString())}</h2>
+    <p class="muted">${escapeHtml(`${record.provider} · ${record.model}`)}</p>
+    ${messages.join('\n')}
+</section>`;
+    }
+
+    private getWebviewContent(older: AiAnalysisRecord, newer: AiAnalysisRecord): string {
+        const rtl = isRtl();
+        const direction = rtl ? 'rtl' : 'ltr';
+        const start = rtl ? 'right' : 'left';
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+        const comparison = compareStats(older.stats, newer.stats);
+
+        const statsTable = this.changeTable(t('How the codebase changed'), t('Metric'), comparison.metrics.map(m => ({ ...m, label: metricLabel(m.metric) })));
+        const languagesTable = this.changeTable(t('Lines per language'), t('Language'), comparison.languages.map(l => ({ ...l, label: l.language })));
+        const filesTable = this.changeTable(t('Large files'), t('Large file'), comparison.largeFiles.map(f => ({ ...f, label: f.path })));
+
+        // No scripts, and only the nonced style sheet applies
+        return `<!DOCTYPE html>
+<html lang="${getLanguage()}" dir="${direction}">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${t('🕘 AI Analysis Comparison')}</title>
+    <style nonce="${nonce}">
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            direction: ${direction};
+            text-align: ${start};
+        }
+        h1, h2, h3 { color: var(--vscode-textLink-foreground); }
+        table { border-collapse: collapse; margin: 0.5em 0 1.5em; }
+        th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 10px; text-align: ${start}; }
+        th { background: var(--vscode-textBlockQuote-background); }
+        td.number { text-align: right; font-variant-numeric: tabular-nums; direction: ltr; }
+        .up { color: var(--vscode-charts-red); }
+        .down { color: var(--vscode-charts-green); }
+        .muted { opacity: 0.8; }
+        .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+        section { min-width: 0; border-top: 1px solid var(--vscode-panel-border); }
+        .question { background: var(--vscode-textBlockQuote-background); border-radius: 6px; padding: 4px 12px; margin-top: 1.5em; }
+        code { background-color: var(--vscode-textCodeBlock-background); padding: 2px 6px; border-radius: 3px; font-family: var(--vscode-editor-font-family); }
+        pre { background-color: var(--vscode-textCodeBlock-background); padding: 10px 12px; overflow-x: auto; direction: ltr; text-align: left; }
+        pre code { padding: 0; background: none; }
+        blockquote { margin: 1em 0; padding: 0 1em; border-${start}: 3px solid var(--vscode-textBlockQuote-border); }
+        .align-left { text-align: left; }
+        .align-center { text-align: center; }
+        .align-right { text-align: right; }
+        a { color: var(--vscode-textLink-foreground); }
+    </style>
+</head>
+<body>
+    <h1>${t('🕘 AI Analysis Comparison')}</h1>
+    ${statsTable}
+    ${languagesTable}
+    ${filesTable}
+    <div class="columns">
+        ${this.renderConversation(older)}
+        ${this.renderConversation(newer)}
+    </div>
+</body>
+</html>`;
+    }
+}
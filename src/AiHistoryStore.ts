@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { AiAnalysisRecord } from './aiHistory';
+
+const HISTORY_KEY = 'fileLineCounter.aiHistory';
+
+// Oldest analyses are dropped beyond this; each one keeps its prompt, so they are not tiny
+const MAX_ANALYSES = 30;
+
+/**
+ * Past AI analyses with the statistics they were based on, kept in the workspace state so
+ * each workspace has its own.
+ */
+export class AiHistoryStore {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private readonly state: vscode.Memento) { }
+
+    // Newest first
+    list(): AiAnalysisRecord[] {
+        return [...(this.state.get<AiAnalysisRecord[]>(HISTORY_KEY) || [])].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    get(id: string): AiAnalysisRecord | undefined {
+        return this.list().find(r => r.id === id);
+    }
+
+    // Saving a record with an existing id replaces it, e.g. after a follow-up question
+    async save(record: AiAnalysisRecord): Promise<void> {
+        const records = [record, ...this.list().filter(r => r.id !== record.id)]
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, MAX_ANALYSES);
+        await this.state.update(HISTORY_KEY, records);
+        this._onDidChange.fire();
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.state.update(HISTORY_KEY, this.list().filter(r => r.id !== id));
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
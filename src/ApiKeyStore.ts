@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+
+const SECRET_PREFIX = 'fileLineCounter.apiKey.';
+
+// Settings that held keys before they moved to secret storage
+const LEGACY_SETTINGS = ['apiKey', 'geminiApiKey'];
+
+/**
+ * AI API keys, one per provider, kept in VS Code's secret storage (the OS keychain) so they
+ * are never synced with settings or committed with `.vscode/settings.json`.
+ */
+export class ApiKeyStore {
+    constructor(private readonly secrets: vscode.SecretStorage) { }
+
+    async get(provider: string): Promise<string | undefined> {
+        const key = await this.secrets.get(SECRET_PREFIX + provider);
+        return key && key.trim() !== '' ? key.trim() : undefined;
+    }
+
+    async set(provider: string, key: string): Promise<void> {
+        await this.secrets.store(SECRET_PREFIX + provider, key.trim());
+    }
+
+    async delete(provider: string): Promise<void> {
+        await this.secrets.delete(SECRET_PREFIX + provider);
+    }
+
+    /**
+     * Moves keys out of the plain settings: `apiKey` belongs to the configured provider and
+     * `geminiApiKey` to Gemini. Keys already in secret storage win; the settings are cleared
+     * wherever they were set either way.
+     */
+    async migrateFromSettings(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        const provider = config.get<string>('aiProvider') || 'Gemini';
+
+        for (const setting of LEGACY_SETTINGS) {
+            const inspected = config.inspect<string>(setting);
+            if (!inspected) {
+                continue;
+            }
+
+            const targets: [string | undefined, vscode.ConfigurationTarget][] = [
+                [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+                [inspected.globalValue, vscode.ConfigurationTarget.Global]
+            ];
+            for (const [value, target] of targets) {
+                if (value === undefined) {
+                    continue;
+                }
+                const owner = setting === 'geminiApiKey' ? 'Gemini' : provider;
+                if (value.trim() !== '' && !(await this.get(owner))) {
+                    await this.set(owner, value);
+                }
+                await config.update(setting, undefined, target);
+            }
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { BaselineSnapshot } from './baseline';
+
+const SNAPSHOTS_KEY = 'fileLineCounter.baselines';
+const ACTIVE_KEY = 'fileLineCounter.activeBaseline';
+
+/**
+ * Named line count snapshots, kept in the workspace state so each workspace has its own.
+ */
+export class BaselineStore {
+    constructor(private readonly state: vscode.Memento) { }
+
+    list(): BaselineSnapshot[] {
+        return this.state.get<BaselineSnapshot[]>(SNAPSHOTS_KEY) || [];
+    }
+
+    get(name: string): BaselineSnapshot | undefined {
+        return this.list().find(s => s.name === name);
+    }
+
+    // Saving under an existing name replaces that snapshot
+    async save(snapshot: BaselineSnapshot): Promise<void> {
+        const snapshots = this.list().filter(s => s.name !== snapshot.name);
+        snapshots.push(snapshot);
+        await this.state.update(SNAPSHOTS_KEY, snapshots);
+    }
+
+    async delete(name: string): Promise<void> {
+        await this.state.update(SNAPSHOTS_KEY, this.list().filter(s => s.name !== name));
+        if (this.state.get<string>(ACTIVE_KEY) === name) {
+            await this.state.update(ACTIVE_KEY, undefined);
+        }
+    }
+
+    getActive(): BaselineSnapshot | undefined {
+        const name = this.state.get<string>(ACTIVE_KEY);
+        return name ? this.get(name) : undefined;
+    }
+
+    async setActive(name: string | undefined): Promise<void> {
+        await this.state.update(ACTIVE_KEY, name);
+    }
+}
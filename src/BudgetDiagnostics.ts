@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileTreeProvider } from './FileTreeProvider';
+import { BUDGET_POLICY_FILE } from './budgetPolicy';
+import { t } from './localization';
+
+const DIAGNOSTIC_SOURCE = 'File Line Counter';
+const DIAGNOSTIC_CODE = 'line-budget';
+const UPDATE_DELAY_MS = 1000;
+
+/**
+ * Reports files over their .linecounterrc.json budget in the Problems panel, with a quick fix
+ * that opens the policy file.
+ */
+export class BudgetDiagnostics implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('fileLineCounter');
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly fileTreeProvider: FileTreeProvider) { }
+
+    // Coalesces bursts of tree refreshes into one update
+    scheduleUpdate(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.update().catch(error => console.error('File Line Counter: failed to update line budget diagnostics', error));
+        }, UPDATE_DELAY_MS);
+    }
+
+    async update(): Promise<void> {
+        // Without a policy file there is nothing to report, so the workspace is not scanned
+        const policies = (vscode.workspace.workspaceFolders || []).map(folder => this.fileTreeProvider.getBudgetPolicy(folder.uri.fsPath));
+        if (policies.every(policy => policy.isEmpty && !policy.error)) {
+            this.collection.clear();
+            return;
+        }
+
+        const stats = await this.fileTreeProvider.getWorkspaceStats();
+        const diagnostics = new Map<string, vscode.Diagnostic[]>();
+
+        for (const violation of stats.budgetViolations) {
+            // Point at the first line over the budget
+            const line = new vscode.Position(violation.limit, 0);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(line, line),
+                t('{0} has {1} lines, over its budget of {2} ({3})', path.basename(violation.filePath), violation.lines, violation.limit, BUDGET_POLICY_FILE),
+                violation.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = DIAGNOSTIC_CODE;
+            diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(violation.policyPath), new vscode.Position(0, 0)),
+                t('Line budgets are defined here')
+            )];
+            diagnostics.set(violation.filePath, [diagnostic]);
+        }
+
+        // A broken policy file is reported on the file itself
+        for (const policy of policies) {
+            if (policy.error) {
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(0, 0, 0, 0),
+                    t('Line budgets could not be read: {0}', policy.error),
+                    vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.source = DIAGNOSTIC_SOURCE;
+                diagnostics.set(policy.policyPath, [diagnostic]);
+            }
+        }
+
+        this.collection.clear();
+        for (const [filePath, fileDiagnostics] of diagnostics) {
+            this.collection.set(vscode.Uri.file(filePath), fileDiagnostics);
+        }
+    }
+
+    provideCodeActions(_document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(d => d.source === DIAGNOSTIC_SOURCE && d.code === DIAGNOSTIC_CODE && d.relatedInformation?.length)
+            .map(d => {
+                const title = t('Open line budget policy');
+                const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                action.command = {
+                    command: 'vscode.open',
+                    title,
+                    arguments: [d.relatedInformation![0].location.uri]
+                };
+                action.diagnostics = [d];
+                return action;
+            });
+    }
+
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = undefined;
+        }
+        this.collection.dispose();
+    }
+}
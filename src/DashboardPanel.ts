@@ -0,0 +1,354 @@
+import * as vscode from 'vscode';
+import { FileTreeProvider } from './FileTreeProvider';
+import { buildFolderNode, buildHistogram, buildWorkspaceNode } from './dashboardData';
+import { getLanguage, isRtl, t } from './localization';
+import { parseThresholds, ThresholdConfig } from './thresholds';
+
+/**
+ * "Line Count Dashboard" webview: treemap, file size histogram and per-language breakdown,
+ * built from the same statistics as the Line Count view and refreshed with it.
+ */
+export class DashboardPanel {
+    private panel: vscode.WebviewPanel | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly fileTreeProvider: FileTreeProvider) { }
+
+    show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'lineCountDashboard',
+            t('Line Count Dashboard'),
+            vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
+
+        this.disposables.push(
+            this.panel.webview.onDidReceiveMessage(message => {
+                if (message.type === 'ready') {
+                    this.update();
+                } else if (message.type === 'open' && typeof message.path === 'string') {
+                    vscode.commands.executeCommand('vscode.open', vscode.Uri.file(message.path));
+                }
+            }),
+            // Tree updates are already debounced, so the dashboard follows the watcher at the same pace
+            this.fileTreeProvider.onDidChangeTreeData(() => this.update()),
+            this.panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    private getThresholds(): ThresholdConfig[] {
+        return parseThresholds(vscode.workspace.getConfiguration('fileLineCounter').get('thresholds'));
+    }
+
+    private async update(): Promise<void> {
+        if (!this.panel) {
+            return;
+        }
+
+        const stats = await this.fileTreeProvider.getWorkspaceStats();
+        const files = await this.fileTreeProvider.getCountedFiles();
+        const folders = (vscode.workspace.workspaceFolders || []).map(folder =>
+            buildFolderNode(folder.name, folder.uri.fsPath, files.map(f => ({ path: f.path, lines: f.lineCount })))
+        );
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+
+        this.panel?.webview.postMessage({
+            type: 'update',
+            data: {
+                root: buildWorkspaceNode(vscode.workspace.name || t('Workspace'), folders),
+                histogram: buildHistogram(files.map(f => f.lineCount)),
+                languages: stats.languages,
+                totalFiles: stats.totalFiles,
+                totalLines: stats.totalLines,
+                countMode: config.get<string>('countMode') || 'total',
+                // Theme color ids become CSS variables in the webview
+                thresholds: this.getThresholds().map(t => ({ lines: t.lines, color: `var(--vscode-${t.color.replace(/\./g, '-')})` }))
+            }
+        });
+    }
+
+    private dispose(): void {
+        this.panel = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+        // Texts the script fills in, with {0}-style placeholders; '<' is escaped so the JSON cannot close the script
+        const strings = JSON.stringify({
+            lines: t('{0} lines'),
+            files: t('{0} files'),
+            nodeTooltip: t('{0} lines, {1} files'),
+            totals: t('{0} files · {1} lines'),
+            codeTotals: t('{0} files · {1} code lines'),
+            languageShare: t('{0} lines · {1}%')
+        }).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="${getLanguage()}" dir="${isRtl() ? 'rtl' : 'ltr'}">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${t('Line Count Dashboard')}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 16px 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        h1 { font-size: 1.4em; color: var(--vscode-textLink-foreground); margin: 0 0 4px; }
+        h2 { font-size: 1.1em; margin: 20px 0 8px; }
+        .totals { color: var(--vscode-descriptionForeground); }
+        .breadcrumb { margin: 12px 0 6px; }
+        .breadcrumb a { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: none; }
+        .breadcrumb a:hover { text-decoration: underline; }
+        #treemap { direction: ltr; position: relative; width: 100%; height: 60vh; min-height: 300px; }
+        .node {
+            position: absolute;
+            box-sizing: border-box;
+            border: 1px solid var(--vscode-editor-background);
+            overflow: hidden;
+            font-size: 11px;
+            cursor: pointer;
+        }
+        .folder { background: var(--vscode-editorWidget-background); }
+        .folder > .title { padding: 2px 4px; white-space: nowrap; font-weight: bold; }
+        .file { color: var(--vscode-editor-background); padding: 2px 4px; white-space: nowrap; }
+        .file:hover, .folder > .title:hover { outline: 2px solid var(--vscode-focusBorder); outline-offset: -2px; }
+        .bars { display: grid; grid-template-columns: max-content 1fr max-content; gap: 4px 10px; align-items: center; max-width: 720px; }
+        .bar { height: 14px; background: var(--vscode-charts-blue); min-width: 1px; }
+        .value { color: var(--vscode-descriptionForeground); text-align: end; }
+        .columns { display: flex; flex-wrap: wrap; gap: 40px; }
+        .columns > div { flex: 1 1 320px; }
+    </style>
+</head>
+<body>
+    <h1>${t('Line Count Dashboard')}</h1>
+    <div class="totals" id="totals"></div>
+    <div class="breadcrumb" id="breadcrumb"></div>
+    <div id="treemap"></div>
+    <div class="columns">
+        <div>
+            <h2>${t('File Sizes')}</h2>
+            <div class="bars" id="histogram"></div>
+        </div>
+        <div>
+            <h2>${t('By Language')}</h2>
+            <div class="bars" id="languages"></div>
+        </div>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const HEADER_HEIGHT = 18;
+        const strings = ${strings};
+        let data;
+        let zoomPath = [];
+
+        function fileColor(lines) {
+            for (const threshold of data.thresholds) {
+                if (lines >= threshold.lines) {
+                    return threshold.color;
+                }
+            }
+            return 'var(--vscode-charts-green)';
+        }
+
+        // Squarified treemap: rows of rectangles whose aspect ratio stays close to 1
+        function squarify(nodes, rect) {
+            const total = nodes.reduce((sum, n) => sum + n.lines, 0);
+            const scale = (rect.w * rect.h) / total;
+            const areas = nodes.map(n => n.lines * scale);
+            const placed = [];
+            let row = [];
+            let free = Object.assign({}, rect);
+
+            const worst = (indices, side) => {
+                const values = indices.map(i => areas[i]);
+                const sum = values.reduce((a, b) => a + b, 0);
+                return Math.max(side * side * Math.max(...values) / (sum * sum), (sum * sum) / (side * side * Math.min(...values)));
+            };
+
+            const layoutRow = indices => {
+                const sum = indices.reduce((s, i) => s + areas[i], 0);
+                if (free.w >= free.h) {
+                    const width = sum / free.h;
+                    let y = free.y;
+                    for (const i of indices) {
+                        const height = areas[i] / width;
+                        placed.push({ node: nodes[i], x: free.x, y, w: width, h: height });
+                        y += height;
+                    }
+                    free = { x: free.x + width, y: free.y, w: free.w - width, h: free.h };
+                } else {
+                    const height = sum / free.w;
+                    let x = free.x;
+                    for (const i of indices) {
+                        const width = areas[i] / height;
+                        placed.push({ node: nodes[i], x, y: free.y, w: width, h: height });
+                        x += width;
+                    }
+                    free = { x: free.x, y: free.y + height, w: free.w, h: free.h - height };
+                }
+            };
+
+            let i = 0;
+            while (i < nodes.length) {
+                const side = Math.min(free.w, free.h);
+                const candidate = row.concat([i]);
+                if (row.length === 0 || worst(row, side) >= worst(candidate, side)) {
+                    row = candidate;
+                    i++;
+                } else {
+                    layoutRow(row);
+                    row = [];
+                }
+            }
+            if (row.length > 0) {
+                layoutRow(row);
+            }
+            return placed;
+        }
+
+        function format(text, ...args) {
+            return text.replace(/\\{(\\d+)\\}/g, (placeholder, index) => index < args.length ? args[index] : placeholder);
+        }
+
+        function label(node) {
+            return node.name + ' (' + node.lines.toLocaleString() + ')';
+        }
+
+        // Two levels are drawn: the zoomed folder's children, and their children inside folder boxes
+        function drawNodes(container, nodes, rect, parents) {
+            const visible = nodes.filter(n => n.lines > 0);
+            if (visible.length === 0 || rect.w < 4 || rect.h < 4) {
+                return;
+            }
+            for (const item of squarify(visible, rect)) {
+                const el = document.createElement('div');
+                el.className = 'node ' + (item.node.children ? 'folder' : 'file');
+                el.style.left = item.x + 'px';
+                el.style.top = item.y + 'px';
+                el.style.width = item.w + 'px';
+                el.style.height = item.h + 'px';
+                el.title = (item.node.path || item.node.name) + '\\n' + format(strings.nodeTooltip, item.node.lines.toLocaleString(), item.node.files);
+
+                if (item.node.children) {
+                    const title = document.createElement('div');
+                    title.className = 'title';
+                    title.textContent = label(item.node);
+                    el.appendChild(title);
+                    el.addEventListener('click', event => {
+                        event.stopPropagation();
+                        zoomPath = zoomPath.concat(parents, [item.node]);
+                        render();
+                    });
+                    if (parents.length === 0) {
+                        drawNodes(el, item.node.children, { x: 0, y: HEADER_HEIGHT, w: item.w - 2, h: item.h - HEADER_HEIGHT - 2 }, [item.node]);
+                    }
+                } else {
+                    el.style.background = fileColor(item.node.lines);
+                    el.textContent = item.w > 40 && item.h > 14 ? label(item.node) : '';
+                    el.addEventListener('click', event => {
+                        event.stopPropagation();
+                        vscode.postMessage({ type: 'open', path: item.node.path });
+                    });
+                }
+                container.appendChild(el);
+            }
+        }
+
+        function renderBreadcrumb() {
+            const breadcrumb = document.getElementById('breadcrumb');
+            breadcrumb.textContent = '';
+            const trail = [data.root].concat(zoomPath);
+            trail.forEach((node, index) => {
+                if (index > 0) {
+                    breadcrumb.appendChild(document.createTextNode(' / '));
+                }
+                const link = document.createElement('a');
+                link.textContent = node.name;
+                link.addEventListener('click', () => {
+                    zoomPath = zoomPath.slice(0, index);
+                    render();
+                });
+                breadcrumb.appendChild(link);
+            });
+        }
+
+        function renderBars(id, rows) {
+            const container = document.getElementById(id);
+            container.textContent = '';
+            const max = Math.max(1, ...rows.map(r => r.value));
+            for (const row of rows) {
+                const name = document.createElement('div');
+                name.textContent = row.label;
+                const barCell = document.createElement('div');
+                const bar = document.createElement('div');
+                bar.className = 'bar';
+                bar.style.width = (row.value / max * 100) + '%';
+                barCell.appendChild(bar);
+                const value = document.createElement('div');
+                value.className = 'value';
+                value.textContent = row.detail;
+                container.append(name, barCell, value);
+            }
+        }
+
+        function render() {
+            if (!data) {
+                return;
+            }
+            document.getElementById('totals').textContent = format(data.countMode === 'code' ? strings.codeTotals : strings.totals,
+                data.totalFiles.toLocaleString(), data.totalLines.toLocaleString());
+            renderBreadcrumb();
+
+            const treemap = document.getElementById('treemap');
+            treemap.textContent = '';
+            const current = zoomPath.length > 0 ? zoomPath[zoomPath.length - 1] : data.root;
+            drawNodes(treemap, current.children || [current], { x: 0, y: 0, w: treemap.clientWidth, h: treemap.clientHeight }, []);
+
+            renderBars('histogram', data.histogram.map(b => ({ label: format(strings.lines, b.label), value: b.files, detail: format(strings.files, b.files) })));
+            renderBars('languages', data.languages.map(l => ({
+                label: l.language,
+                value: l.lines,
+                detail: format(strings.languageShare, l.lines.toLocaleString(), data.totalLines > 0 ? Math.round(l.lines / data.totalLines * 100) : 0)
+            })));
+        }
+
+        // Keep the zoom on the same folder after a live update, as far down as it still exists
+        function restoreZoom() {
+            const restored = [];
+            let node = data.root;
+            for (const previous of zoomPath) {
+                node = (node.children || []).find(c => c.path === previous.path);
+                if (!node || !node.children) {
+                    break;
+                }
+                restored.push(node);
+            }
+            zoomPath = restored;
+        }
+
+        window.addEventListener('message', event => {
+            if (event.data.type === 'update') {
+                data = event.data.data;
+                restoreZoom();
+                render();
+            }
+        });
+        window.addEventListener('resize', render);
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import { mapWithConcurrency } from './lineCounter';
+import { LanguageDefinition } from './languageRegistry';
+import { Clone, CloneDetector, CloneOptions, CloneSummary, fingerprint, summarizeClones, TokenFingerprint, tokenize } from './cloneDetector';
+
+// Files read at once while tokenizing
+const TOKENIZE_CONCURRENCY = 8;
+// Files compared between two yields to the extension host
+const DETECT_BATCH_SIZE = 50;
+// Larger files are usually generated or minified and are left out
+const MAX_TOKENIZED_BYTES = 1024 * 1024;
+const EMPTY_FINGERPRINT = fingerprint([]);
+
+export interface DuplicateReport {
+    // Longest first
+    clones: Clone[];
+    summary: CloneSummary;
+}
+
+/**
+ * Runs the clone detector over the workspace's code files, in batches that yield to the extension
+ * host. Token hashes are cached by mtime and size, so only changed files are read again.
+ */
+export class DuplicateService {
+    private cache = new Map<string, { mtime: number; size: number; fingerprint: TokenFingerprint }>();
+
+    async findDuplicates(files: { path: string; language: LanguageDefinition }[], options: CloneOptions): Promise<DuplicateReport> {
+        const detector = new CloneDetector(options);
+        for (let start = 0; start < files.length; start += DETECT_BATCH_SIZE) {
+            const batch = files.slice(start, start + DETECT_BATCH_SIZE);
+            const fingerprints = await mapWithConcurrency(batch, TOKENIZE_CONCURRENCY, file => this.getFingerprint(file.path, file.language));
+            batch.forEach((file, i) => detector.addFile(file.path, fingerprints[i]));
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        const clones = detector.getClones();
+        return { clones, summary: summarizeClones(clones) };
+    }
+
+    private async getFingerprint(filePath: string, language: LanguageDefinition): Promise<TokenFingerprint> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (stat.size > MAX_TOKENIZED_BYTES) {
+                return EMPTY_FINGERPRINT;
+            }
+
+            const cached = this.cache.get(filePath);
+            if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+                return cached.fingerprint;
+            }
+
+            const result = fingerprint(tokenize(await fs.promises.readFile(filePath, 'utf-8'), language.comments));
+            this.cache.set(filePath, { mtime: stat.mtimeMs, size: stat.size, fingerprint: result });
+            return result;
+        } catch (error) {
+            this.cache.delete(filePath);
+            return EMPTY_FINGERPRINT;
+        }
+    }
+}
@@ -1,305 +1,379 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { countLines } from './lineCounter';
-
-interface FileInfo {
-    path: string;
+import { CountMode, DEFAULT_LARGE_FILE_BYTES, LineCounts, mapWithConcurrency, selectCount } from './lineCounter';
+import { LanguageDefinition, LanguageRegistry } from './languageRegistry';
+import { IgnoreMatcher } from './ignoreMatcher';
+import { LineCountIndex } from './LineCountIndex';
+import { BaselineStore } from './BaselineStore';
+import { AiHistoryStore } from './AiHistoryStore';
+import { BaselineDeltas, computeDeltas, formatDelta, LineDelta, netDelta } from './baseline';
+import { ReportData } from './reportFormatter';
+import { buildStats, CodeStats, FileInfo, isCounted, scanCodeFiles, toFileInfo } from './workspaceStats';
+import { BUDGET_POLICY_FILE, BudgetPolicy } from './budgetPolicy';
+import { LongSymbol, SymbolMetricsService } from './SymbolMetricsService';
+import type { SymbolMetric } from './symbolMetrics';
+import { DuplicateReport, DuplicateService } from './DuplicateService';
+import { summarizeClones } from './cloneDetector';
+import { formatMessage, t } from './localization';
+import { parseThresholds, ThresholdConfig } from './thresholds';
+
+interface FolderStats extends CodeStats {
     name: string;
-    lineCount: number;
+    path: string;
+}
+
+// Combined totals across all workspace folders, plus one entry per folder
+interface WorkspaceStats extends CodeStats {
+    folders: FolderStats[];
 }
 
-interface WorkspaceStats {
-    totalFiles: number;
-    totalLines: number;
-    averageLines: number;
-    largeFiles: FileInfo[];
+// Recursive totals for a directory, over the same files as the summary
+export interface DirectoryTotals {
+    lines: number;
+    files: number;
 }
 
-type TreeItemType = 'summaryHeader' | 'stat' | 'largeFile' | 'recommendation' | 'action' | 'filesHeader' | 'directory' | 'file';
-
-// Translations for UI elements
-const translations: Record<string, Record<string, string>> = {
-    en: {
-        considerSplitting: 'Consider splitting',
-        veryLargeFile: 'very large file',
-        filesExceed: 'files exceed',
-        linesThreshold: 'lines',
-        considerRefactoring: 'Consider refactoring for better maintainability',
-        highAverageSize: 'High average file size',
-        considerSmaller: 'consider smaller modules',
-        noIssues: '✅ No issues detected',
-        wellOrganized: 'Your codebase looks well-organized!',
-        analyzeWithAI: '🤖 Analyze with AI',
-        clickForAnalysis: 'Click to get AI-powered analysis',
-        largeFilesCaption: '⚠️ Large Files',
-        noLargeFiles: 'No large files found'
-    },
-    he: {
-        considerSplitting: 'שקול לפצל את',
-        veryLargeFile: 'קובץ גדול מאוד',
-        filesExceed: 'קבצים עוברים את',
-        linesThreshold: 'שורות',
-        considerRefactoring: 'שקול שיפורים לתחזוקה טובה יותר',
-        highAverageSize: 'גודל ממוצע גבוה',
-        considerSmaller: 'שקול מודולים קטנים יותר',
-        noIssues: '✅ לא נמצאו בעיות',
-        wellOrganized: 'הקוד שלך מאורגן היטב!',
-        analyzeWithAI: '🤖 ניתוח חכם (AI)',
-        clickForAnalysis: 'לחץ לקבלת ניתוח מבוסס בינה מלאכותית',
-        largeFilesCaption: '⚠️ קבצים גדולים',
-        noLargeFiles: 'לא נמצאו קבצים גדולים'
-    }
-};
+const COUNT_CONCURRENCY = 8;
+
+export type TreeSortOrder = 'name' | 'lines' | 'modified';
+
+// Sorting and filtering of the files section, remembered per workspace
+export interface TreeViewOptions {
+    sortBy: TreeSortOrder;
+    // Files below this many lines are hidden, and so are folders left empty
+    minLines: number;
+    // Case-insensitive text matched against the folder-relative path
+    pathFilter: string;
+}
+
+const VIEW_OPTIONS_KEY = 'fileLineCounter.treeViewOptions';
+const DEFAULT_VIEW_OPTIONS: TreeViewOptions = { sortBy: 'name', minLines: 0, pathFilter: '' };
+// Files listed under "Changed since baseline"
+const MAX_CHANGED_FILES = 20;
+// Symbols listed under "Long Functions"
+const MAX_LONG_FUNCTIONS = 20;
+// Symbols listed under "Complex Functions"
+const MAX_COMPLEX_FUNCTIONS = 20;
+// Large files suggested for splitting because of their complexity
+const MAX_COMPLEX_SPLITS = 5;
+// Clones listed under "Duplicates"
+const MAX_DUPLICATES = 20;
+
+type TreeItemType = 'summaryHeader' | 'stat' | 'largeFile' | 'recommendation' | 'action' | 'filesHeader' | 'directory' | 'file' | 'symbol' | 'duplicate' | 'aiAnalysis';
 
 export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
+    // Directories whose recursive totals changed, for the Explorer folder badges
+    private _onDidChangeDirectoryTotals: vscode.EventEmitter<vscode.Uri[]> = new vscode.EventEmitter<vscode.Uri[]>();
+    readonly onDidChangeDirectoryTotals: vscode.Event<vscode.Uri[]> = this._onDidChangeDirectoryTotals.event;
+
     private cachedStats: WorkspaceStats | null = null;
-    private ignorePatterns: string[] = [];
-    private includePatterns: string[] = [];
-    private useIncludeFile = false;
-    private ignorePatternsLoaded = false;
+    // Differences against the active baseline, recomputed whenever the stats are
+    private cachedDeltas: BaselineDeltas | null = null;
+    // Clones across all workspace folders, recomputed whenever the stats are
+    private cachedDuplicates: DuplicateReport | null = null;
+    // Counted files per workspace folder, kept up to date by updateFile/removeFile
+    private folderFiles = new Map<string, Map<string, FileInfo>>();
+    private folderScans = new Map<string, Promise<Map<string, FileInfo>>>();
+    private directoryTotals = new Map<string, DirectoryTotals>();
+    private ignoreMatchers = new Map<string, IgnoreMatcher>();
+    private budgetPolicies = new Map<string, BudgetPolicy>();
+    private languageRegistry: LanguageRegistry | null = null;
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private symbolMetrics = new SymbolMetricsService();
+    private duplicateService = new DuplicateService();
 
-    refresh(): void {
-        this.cachedStats = null;
-        this.ignorePatternsLoaded = false;
-        this._onDidChangeTreeData.fire();
+    constructor(
+        private readonly index: LineCountIndex,
+        private readonly baselines: BaselineStore,
+        private readonly state: vscode.Memento,
+        private readonly aiHistory: AiHistoryStore
+    ) {
+        // Saved analyses only change the AI History node; the cached stats stay valid
+        aiHistory.onDidChange(() => this._onDidChangeTreeData.fire());
     }
 
-    getTreeItem(element: TreeItem): vscode.TreeItem {
-        return element;
+    getViewOptions(): TreeViewOptions {
+        return { ...DEFAULT_VIEW_OPTIONS, ...this.state.get<Partial<TreeViewOptions>>(VIEW_OPTIONS_KEY) };
     }
 
-    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
-        if (!vscode.workspace.workspaceFolders) {
-            return [];
-        }
-
-        // Root level - show summary sections first, then files
-        if (!element) {
-            return this.getRootItems();
-        }
+    async setViewOptions(changes: Partial<TreeViewOptions>): Promise<void> {
+        await this.state.update(VIEW_OPTIONS_KEY, { ...this.getViewOptions(), ...changes });
+        this._onDidChangeTreeData.fire();
+    }
 
-        // Child items based on parent type
-        return this.getChildItems(element);
+    isFiltered(): boolean {
+        const options = this.getViewOptions();
+        return options.minLines > 0 || options.pathFilter !== '';
     }
 
-    private getLanguage(): string {
-        const config = vscode.workspace.getConfiguration('fileLineCounter');
-        return config.get<string>('language') || 'en';
+    // Shown as the view description, e.g. "Lines · ≥ 300 lines · "auth""
+    describeViewOptions(): string | undefined {
+        const options = this.getViewOptions();
+        const parts: string[] = [];
+        if (options.sortBy !== 'name') {
+            parts.push(options.sortBy === 'lines' ? t('By lines') : t('By last modified'));
+        }
+        if (options.minLines > 0) {
+            parts.push(t('≥ {0} lines', options.minLines));
+        }
+        if (options.pathFilter) {
+            parts.push(`"${options.pathFilter}"`);
+        }
+        return parts.length > 0 ? parts.join(' · ') : undefined;
     }
 
-    // Translation helper
-    private t(key: string): string {
-        const lang = this.getLanguage();
-        return translations[lang]?.[key] || translations['en'][key] || key;
+    refresh(): void {
+        this.cachedStats = null;
+        this.cachedDeltas = null;
+        this.cachedDuplicates = null;
+        this.folderFiles.clear();
+        this.folderScans.clear();
+        this.directoryTotals.clear();
+        this.ignoreMatchers.clear();
+        this.budgetPolicies.clear();
+        this.languageRegistry = null;
+        this._onDidChangeTreeData.fire();
     }
 
-    private async loadIgnorePatterns(): Promise<void> {
-        if (this.ignorePatternsLoaded) {
+    // Called by the file watcher: recounts one file and recomputes totals from the in-memory list
+    async updateFile(uri: vscode.Uri): Promise<void> {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
             return;
         }
 
-        this.ignorePatterns = [];
-        this.includePatterns = [];
-        const workspaceRoot = vscode.workspace.workspaceFolders![0].uri.fsPath;
-        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        const filePath = uri.fsPath;
+        const folderPath = folder.uri.fsPath;
 
-        // Settings
-        const ignoreListActive = config.get<boolean>('ignoreListActive') ?? true;
-        const ignoreFilesConfig = config.get<string[]>('ignoreFiles') || [];
-
-        const whitelistActive = config.get<boolean>('whitelistActive') ?? false;
-        const includeFilesConfig = config.get<string[]>('includeFiles') || [];
-
-        this.useIncludeFile = whitelistActive; // Reuse existing property for whitelist logic
-
-        // Load ignore patterns if enabled
-        if (ignoreListActive) {
-            for (const ignoreFile of ignoreFilesConfig) {
-                const ignorePath = path.join(workspaceRoot, ignoreFile);
-                if (fs.existsSync(ignorePath)) {
-                    try {
-                        const content = fs.readFileSync(ignorePath, 'utf-8');
-                        const patterns = content.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
-                        this.ignorePatterns.push(...patterns);
-                    } catch (e) { /* ignore */ }
-                }
-            }
+        // A changed ignore or include file can affect any path below it
+        if (this.isRuleFile(filePath, folderPath)) {
+            this.refresh();
+            return;
+        }
+
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(filePath);
+        } catch (error) {
+            this.removeFile(uri);
+            return;
         }
 
-        // Load include patterns if enabled
-        if (whitelistActive) {
-            for (const includeFile of includeFilesConfig) {
-                const includePath = path.join(workspaceRoot, includeFile);
-                if (fs.existsSync(includePath)) {
-                    try {
-                        const content = fs.readFileSync(includePath, 'utf-8');
-                        const patterns = content.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
-                        this.includePatterns.push(...patterns);
-                    } catch (e) { /* ignore */ }
+        const files = this.folderFiles.get(folderPath);
+        if (stat.isDirectory()) {
+            // New or renamed directory - rescan the folder, unchanged files come from the index
+            this.folderFiles.delete(folderPath);
+            this.folderScans.delete(folderPath);
+        } else if (files) {
+            const previous = files.get(filePath);
+            const language = this.getLanguageRegistry().detect(filePath);
+            const changed: string[] = [];
+
+            if (!language || this.getIgnoreMatcher(folderPath).isExcluded(filePath, false, true)) {
+                if (!previous) {
+                    return;
                 }
+                files.delete(filePath);
+                changed.push(...this.addToDirectoryTotals(folderPath, previous, -1));
+            } else {
+                const info = await this.createFileInfo(filePath, language);
+                if (previous) {
+                    changed.push(...this.addToDirectoryTotals(folderPath, previous, -1));
+                }
+                files.set(filePath, info);
+                changed.push(...this.addToDirectoryTotals(folderPath, info, 1));
             }
+
+            this.fireDirectoryTotals(changed);
         }
 
-        this.ignorePatternsLoaded = true;
+        this.scheduleRefresh();
     }
 
-    // Helper to check if a file is explicitly included (whitelist)
-    private isIncluded(filePath: string, workspaceRoot: string): boolean {
-        // If not using include file, everything that isn't ignored is included
-        if (!this.useIncludeFile) {
-            return true;
-        }
+    removeFile(uri: vscode.Uri): void {
+        const filePath = uri.fsPath;
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        this.index.remove(filePath);
 
-        // If using include file, file MUST match at least one include pattern
-        const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
-        const fileName = path.basename(filePath);
-
-        for (const pattern of this.includePatterns) {
-            let cleanPattern = pattern.replace(/^\//, '').replace(/\/$/, '');
+        if (folder && this.isRuleFile(filePath, folder.uri.fsPath)) {
+            this.refresh();
+            return;
+        }
 
-            // Check exact match
-            if (relativePath === cleanPattern || fileName === cleanPattern) {
-                return true;
-            }
-            // Check directory match
-            if (relativePath.startsWith(cleanPattern + '/')) {
-                return true;
-            }
-            // Check ** pattern
-            if (cleanPattern.startsWith('**/')) {
-                const subPattern = cleanPattern.slice(3);
-                if (this.matchPattern(fileName, subPattern) || this.matchPattern(relativePath, subPattern)) {
-                    return true;
-                }
-            }
-            // Check *.ext
-            if (cleanPattern.startsWith('*.')) {
-                if (fileName.endsWith(cleanPattern.slice(1))) {
-                    return true;
+        const prefix = filePath + path.sep;
+        const changed: string[] = [];
+        for (const [folderPath, files] of this.folderFiles) {
+            for (const [key, info] of files) {
+                if (key === filePath || key.startsWith(prefix)) {
+                    files.delete(key);
+                    changed.push(...this.addToDirectoryTotals(folderPath, info, -1));
                 }
             }
-            // Check directory wildcard
-            if (cleanPattern.endsWith('/**')) {
-                const dirPattern = cleanPattern.slice(0, -3);
-                if (relativePath === dirPattern || relativePath.startsWith(dirPattern + '/')) {
-                    return true;
-                }
+        }
+
+        // A deleted directory takes its own totals with it
+        for (const key of this.directoryTotals.keys()) {
+            if (key === filePath || key.startsWith(prefix)) {
+                this.directoryTotals.delete(key);
             }
         }
 
-        return false;
+        this.fireDirectoryTotals(changed);
+        this.scheduleRefresh();
     }
 
-    private isIgnored(filePath: string, workspaceRoot: string): boolean {
-        const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
-        const fileName = path.basename(filePath);
+    async getDirectoryTotals(dirPath: string): Promise<DirectoryTotals | undefined> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(dirPath));
+        if (!folder) {
+            return undefined;
+        }
+
+        await this.getFolderFiles(folder.uri.fsPath);
+        return this.directoryTotals.get(dirPath);
+    }
 
-        for (const pattern of this.ignorePatterns) {
-            // Clean up pattern
-            let cleanPattern = pattern.replace(/^\//, '').replace(/\/$/, '');
+    // Adds (or with sign -1 removes) a file's lines to every directory from its parent up to the folder root
+    private addToDirectoryTotals(folderPath: string, file: FileInfo, sign: 1 | -1): string[] {
+        if (!isCounted(file)) {
+            return [];
+        }
 
-            // Check exact match (for files like package-lock.json, .gitignore, esbuild.js)
-            if (relativePath === cleanPattern || fileName === cleanPattern) {
-                return true;
+        const touched: string[] = [];
+        let dir = path.dirname(file.path);
+        while (true) {
+            const totals = this.directoryTotals.get(dir) || { lines: 0, files: 0 };
+            totals.lines += sign * file.lineCount;
+            totals.files += sign;
+            if (totals.files > 0) {
+                this.directoryTotals.set(dir, totals);
+            } else {
+                this.directoryTotals.delete(dir);
             }
+            touched.push(dir);
 
-            // Check if pattern matches directory (for patterns like 'out', 'dist', 'node_modules')
-            if (relativePath === cleanPattern || relativePath.startsWith(cleanPattern + '/')) {
-                return true;
+            if (dir === folderPath || path.dirname(dir) === dir) {
+                break;
             }
+            dir = path.dirname(dir);
+        }
+        return touched;
+    }
 
-            // Handle ** patterns (matches any path)
-            // Patterns like **/*.ts, **/*.map, **/.vscode-test.*
-            if (cleanPattern.startsWith('**/')) {
-                const subPattern = cleanPattern.slice(3); // Remove **/
+    private fireDirectoryTotals(directories: string[]): void {
+        if (directories.length > 0) {
+            this._onDidChangeDirectoryTotals.fire([...new Set(directories)].map(d => vscode.Uri.file(d)));
+        }
+    }
 
-                // Check if subPattern matches anywhere in the path
-                if (this.matchPattern(fileName, subPattern) || this.matchPattern(relativePath, subPattern)) {
-                    return true;
-                }
+    // Coalesces bursts of watcher events (branch switches, builds) into one tree update
+    private scheduleRefresh(): void {
+        this.cachedStats = null;
+        this.cachedDeltas = null;
+        this.cachedDuplicates = null;
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this._onDidChangeTreeData.fire();
+        }, 300);
+    }
 
-                // Also check if any path segment matches
-                const pathParts = relativePath.split('/');
-                for (const part of pathParts) {
-                    if (this.matchPattern(part, subPattern)) {
-                        return true;
-                    }
-                }
-            }
+    private isRuleFile(filePath: string, folderPath: string): boolean {
+        const config = vscode.workspace.getConfiguration('fileLineCounter', vscode.Uri.file(folderPath));
+        const ruleFiles = [...(config.get<string[]>('ignoreFiles') || []), ...(config.get<string[]>('includeFiles') || [])];
+        return ruleFiles.includes(path.basename(filePath)) || filePath === path.join(folderPath, BUDGET_POLICY_FILE);
+    }
 
-            // Handle *.ext patterns (for *.vsix, *.map, *.ts)
-            if (cleanPattern.startsWith('*.')) {
-                const ext = cleanPattern.slice(1); // Get .ext
-                if (fileName.endsWith(ext)) {
-                    return true;
-                }
-            }
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
 
-            // Handle dir/** patterns (for .vscode/**, out/**, node_modules/**)
-            if (cleanPattern.endsWith('/**')) {
-                const dirPattern = cleanPattern.slice(0, -3);
-                if (relativePath === dirPattern || relativePath.startsWith(dirPattern + '/')) {
-                    return true;
-                }
-            }
+    async resolveTreeItem(item: vscode.TreeItem, element: TreeItem): Promise<vscode.TreeItem> {
+        if (element.itemType !== 'file' || !element.resourceUri || item.tooltip !== undefined) {
+            return item;
+        }
 
-            // Handle general glob patterns with * (for patterns like **/tsconfig.json)
-            if (cleanPattern.includes('*')) {
-                const regexPattern = cleanPattern
-                    .replace(/\*\*/g, '{{DOUBLESTAR}}')
-                    .replace(/\*/g, '[^/]*')
-                    .replace(/{{DOUBLESTAR}}/g, '.*')
-                    .replace(/\./g, '\\.')
-                    .replace(/\?/g, '.');
-
-                const regex = new RegExp('^' + regexPattern + '$');
-                if (regex.test(relativePath) || regex.test(fileName)) {
-                    return true;
-                }
+        const complexity = await this.symbolMetrics.getFileComplexity(element.resourceUri.fsPath);
+        item.tooltip = element.breakdown;
+        if (complexity) {
+            item.tooltip += `\n${t('Complexity: cognitive {0} · cyclomatic {1}', complexity.cognitive, complexity.cyclomatic)}`;
+            if (complexity.worst) {
+                item.tooltip += `\n${t('Most complex: {0} ({1})', complexity.worst.name, complexity.worst.cognitive)}`;
             }
         }
+        return item;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (!vscode.workspace.workspaceFolders) {
+            return [];
+        }
+
+        // Root level - show summary sections first, then files
+        if (!element) {
+            return this.getRootItems();
+        }
+
+        // Child items based on parent type
+        return this.getChildItems(element);
+    }
 
-        return false;
+    // Each workspace folder reads its own ignore/include files and folder-scoped settings
+    getIgnoreMatcher(folderPath: string): IgnoreMatcher {
+        let matcher = this.ignoreMatchers.get(folderPath);
+        if (!matcher) {
+            const config = vscode.workspace.getConfiguration('fileLineCounter', vscode.Uri.file(folderPath));
+            matcher = new IgnoreMatcher(folderPath, {
+                ignoreListActive: config.get<boolean>('ignoreListActive') ?? true,
+                ignoreFiles: config.get<string[]>('ignoreFiles') || [],
+                whitelistActive: config.get<boolean>('whitelistActive') ?? false,
+                includeFiles: config.get<string[]>('includeFiles') || []
+            });
+            this.ignoreMatchers.set(folderPath, matcher);
+        }
+        return matcher;
     }
 
-    private matchPattern(str: string, pattern: string): boolean {
-        // Simple glob matching for patterns like *.ts, *.map, .vscode-test.*
-        if (pattern.includes('*')) {
-            const regexPattern = pattern
-                .replace(/\./g, '\\.')
-                .replace(/\*/g, '.*');
-            const regex = new RegExp('^' + regexPattern + '$');
-            return regex.test(str);
+    // Line budgets from the folder's .linecounterrc.json (empty when there is none)
+    getBudgetPolicy(folderPath: string): BudgetPolicy {
+        let policy = this.budgetPolicies.get(folderPath);
+        if (!policy) {
+            policy = BudgetPolicy.load(folderPath);
+            this.budgetPolicies.set(folderPath, policy);
         }
-        return str === pattern;
+        return policy;
+    }
+
+    private hasBudgets(folderPath?: string): boolean {
+        const folderPaths = folderPath ? [folderPath] : (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+        return folderPaths.some(f => !this.getBudgetPolicy(f).isEmpty);
     }
 
     private async getRootItems(): Promise<TreeItem[]> {
-        await this.loadIgnorePatterns();
-        const stats = await this.getWorkspaceStats();
-        const threshold = this.getSummaryThreshold();
         const items: TreeItem[] = [];
-
-        // Files section header - matches workspace name - AT THE TOP
-        const workspaceName = vscode.workspace.workspaceFolders
-            ? vscode.workspace.workspaceFolders[0].name
-            : 'Files';
-
-        items.push(new TreeItem(
-            workspaceName, // No folder emoji as requested
-            'filesHeader',
-            vscode.TreeItemCollapsibleState.Expanded,
-            undefined,
-            'filesRoot'
-        ));
+        const folders = vscode.workspace.workspaceFolders || [];
+
+        // Files section headers - one per workspace folder, named after it - AT THE TOP
+        for (const folder of folders) {
+            const header = new TreeItem(
+                folder.name, // No folder emoji as requested
+                'filesHeader',
+                folders.length === 1 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+                undefined,
+                'filesRoot'
+            );
+            header.folderPath = folder.uri.fsPath;
+            items.push(header);
+        }
 
         // Summary section - moves Large Files INSIDE this
         items.push(new TreeItem(
-            '📊 Summary',
+            t('📊 Summary'),
             'summaryHeader',
             vscode.TreeItemCollapsibleState.Expanded,
             undefined,
@@ -308,7 +382,7 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
 
         // Recommendations section - moves Analyze with AI INSIDE this
         items.push(new TreeItem(
-            '💡 Recommendations',
+            t('💡 Recommendations'),
             'summaryHeader',
             vscode.TreeItemCollapsibleState.Collapsed,
             undefined,
@@ -319,36 +393,124 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     }
 
     private async getChildItems(parent: TreeItem): Promise<TreeItem[]> {
-        const stats = await this.getWorkspaceStats();
+        // Items under a per-folder summary carry the folder path; everything else uses the combined totals
+        const stats = (parent.folderPath && await this.getFolderStats(parent.folderPath)) || await this.getWorkspaceStats();
         const threshold = this.getSummaryThreshold();
 
         switch (parent.itemId) {
             case 'summary':
+            case 'folderSummary':
+                const baseline = this.baselines.getActive();
+                const summaryDelta = baseline ? formatDelta(await this.getSummaryDelta(parent.folderPath)) : '';
                 const summaryItems = [
-                    new TreeItem(`Total Files: ${stats.totalFiles}`, 'stat', vscode.TreeItemCollapsibleState.None),
-                    new TreeItem(`Total Lines: ${stats.totalLines.toLocaleString()}`, 'stat', vscode.TreeItemCollapsibleState.None),
-                    new TreeItem(`Average Lines/File: ${stats.averageLines}`, 'stat', vscode.TreeItemCollapsibleState.None)
+                    new TreeItem(t('Total Files: {0}', stats.totalFiles), 'stat', vscode.TreeItemCollapsibleState.None),
+                    new TreeItem(this.getCountMode() === 'code' ? t('Total Code Lines: {0}', stats.totalLines.toLocaleString()) : t('Total Lines: {0}', stats.totalLines.toLocaleString()), 'stat', vscode.TreeItemCollapsibleState.None, summaryDelta || undefined),
+                    new TreeItem(t('Average Lines/File: {0}', stats.averageLines), 'stat', vscode.TreeItemCollapsibleState.None),
+                    new TreeItem(
+                        t('Code: {0} · Comments: {1} · Blank: {2}', stats.breakdown.code.toLocaleString(), stats.breakdown.comment.toLocaleString(), stats.breakdown.blank.toLocaleString()),
+                        'stat',
+                        vscode.TreeItemCollapsibleState.None
+                    )
                 ];
 
+                const byLanguage = new TreeItem(
+                    t('🗂️ By Language'),
+                    'summaryHeader',
+                    stats.languages.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+                    undefined,
+                    'byLanguage'
+                );
+                byLanguage.folderPath = parent.folderPath;
+                summaryItems.push(byLanguage);
+
                 // Add "Large Files" as a child of Summary
-                summaryItems.push(new TreeItem(
-                    `${this.t('largeFilesCaption')} (>${threshold})`, // Language dependent caption
+                const largeFilesHeader = new TreeItem(
+                    this.hasBudgets(parent.folderPath) ? t('⚠️ Large Files (>{0} · or over budget)', threshold) : t('⚠️ Large Files (>{0})', threshold),
                     'summaryHeader',
                     stats.largeFiles.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
-                    stats.largeFiles.length > 0 ? undefined : this.t('noLargeFiles'),
+                    stats.largeFiles.length > 0 ? undefined : t('No large files found'),
                     'largeFiles' // This itemId will trigger the existing logic for listing large files
-                ));
+                );
+                largeFilesHeader.folderPath = parent.folderPath;
+                summaryItems.push(largeFilesHeader);
+
+                // Measured on expansion: symbol providers are too slow to run for every refresh
+                const longFunctionsHeader = new TreeItem(
+                    t('📏 Long Functions (≥{0})', this.getLongFunctionLines()),
+                    'summaryHeader',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    'longFunctions'
+                );
+                longFunctionsHeader.folderPath = parent.folderPath;
+                summaryItems.push(longFunctionsHeader);
+
+                const complexFunctionsHeader = new TreeItem(
+                    t('🧠 Complex Functions (≥{0})', this.getMaxCognitiveComplexity()),
+                    'summaryHeader',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    'complexFunctions'
+                );
+                complexFunctionsHeader.folderPath = parent.folderPath;
+                summaryItems.push(complexFunctionsHeader);
+
+                const duplicatesHeader = new TreeItem(
+                    t('🧬 Duplicates'),
+                    'summaryHeader',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    'duplicates'
+                );
+                duplicatesHeader.folderPath = parent.folderPath;
+                summaryItems.push(duplicatesHeader);
+
+                // Biggest growers since the active baseline
+                if (baseline) {
+                    const changedHeader = new TreeItem(
+                        t('📈 Changed since "{0}"', baseline.name),
+                        'summaryHeader',
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                        summaryDelta || undefined,
+                        'changedSinceBaseline'
+                    );
+                    changedHeader.folderPath = parent.folderPath;
+                    summaryItems.push(changedHeader);
+                }
+
+                // Multi-root workspaces get a summary per folder under the combined one
+                if (parent.itemId === 'summary' && 'folders' in stats && stats.folders.length > 1) {
+                    for (const folder of stats.folders) {
+                        const folderItem = new TreeItem(
+                            `📁 ${folder.name}`,
+                            'summaryHeader',
+                            vscode.TreeItemCollapsibleState.Collapsed,
+                            t('{0} files · {1} lines', folder.totalFiles, folder.totalLines.toLocaleString()),
+                            'folderSummary'
+                        );
+                        folderItem.folderPath = folder.path;
+                        summaryItems.push(folderItem);
+                    }
+                }
 
                 return summaryItems;
 
+            case 'byLanguage':
+                return stats.languages.map(lang => new TreeItem(
+                    lang.language,
+                    'stat',
+                    vscode.TreeItemCollapsibleState.None,
+                    t('{0} files · {1} lines', lang.files, lang.lines.toLocaleString())
+                ));
+
             case 'largeFiles':
                 const thresholds = this.getThresholds();
                 return stats.largeFiles.map(file => {
                     let colorId = 'charts.yellow'; // Fallback
                     // Find the highest threshold that is met (thresholds are sorted descending)
-                    for (const t of thresholds) {
-                        if (file.lineCount >= t.lines) {
-                            colorId = t.color;
+                    for (const level of thresholds) {
+                        if (file.lineCount >= level.lines) {
+                            colorId = level.color;
                             break;
                         }
                     }
@@ -357,7 +519,7 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
                         file.name,
                         'largeFile',
                         vscode.TreeItemCollapsibleState.None,
-                        `${file.lineCount.toLocaleString()} lines`,
+                        t('{0} lines', file.lineCount.toLocaleString()),
                         undefined,
                         {
                             command: 'vscode.open',
@@ -367,19 +529,32 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
                     );
                     // Use VS Code ThemeIcon with the user's chosen color
                     item.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(colorId));
+                    item.filePath = file.path;
                     return item;
                 });
 
+            case 'changedSinceBaseline':
+                return this.getChangedFileItems(parent.folderPath);
+
+            case 'longFunctions':
+                return this.getLongFunctionItems(parent.folderPath);
+
+            case 'complexFunctions':
+                return this.getComplexFunctionItems(parent.folderPath);
+
+            case 'duplicates':
+                return this.getDuplicateItems(stats.totalLines, parent.folderPath);
+
             case 'recommendations':
-                // Recommendations use translated text based on language setting
-                const recs = this.getRecommendations(stats);
+                // Recommendations are in the UI language
+                const recs = await this.getRecommendations(stats);
 
                 // Add AI Analysis button here
                 recs.unshift(new TreeItem(
-                    this.t('analyzeWithAI'),
+                    t('🤖 Analyze with AI'),
                     'action',
                     vscode.TreeItemCollapsibleState.None,
-                    this.t('clickForAnalysis'),
+                    t('Click to get AI-powered analysis'),
                     'aiAnalysis',
                     {
                         command: 'file-line-counter.analyzeWithAI',
@@ -387,115 +562,516 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
                     }
                 ));
 
+                const analyses = this.aiHistory.list().length;
+                recs.splice(1, 0, new TreeItem(
+                    analyses > 0 ? t('🕘 AI History ({0})', analyses) : t('🕘 AI History'),
+                    'summaryHeader',
+                    analyses > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+                    analyses > 0 ? undefined : t('No saved analyses'),
+                    'aiHistory'
+                ));
+
                 return recs;
 
+            case 'aiHistory':
+                return this.aiHistory.list().map(record => {
+                    const item = new TreeItem(
+                        new Date(record.createdAt).toLocaleString(),
+                        'aiAnalysis',
+                        vscode.TreeItemCollapsibleState.None,
+                        `${record.provider} · ${record.model} · ${t('{0} lines', record.stats.totalLines.toLocaleString())}`,
+                        undefined,
+                        {
+                            command: 'file-line-counter.openAiAnalysis',
+                            title: 'Open AI Analysis',
+                            arguments: [record.id]
+                        }
+                    );
+                    item.analysisId = record.id;
+                    item.iconPath = new vscode.ThemeIcon('history');
+                    return item;
+                });
+
             case 'filesRoot':
-                const workspaceRoot = vscode.workspace.workspaceFolders![0].uri.fsPath;
-                return this.getFilesInDirectory(workspaceRoot);
+                return parent.folderPath ? this.getFilesInDirectory(parent.folderPath, parent.folderPath) : [];
 
             default:
-                if (parent.itemType === 'directory' && parent.resourceUri) {
-                    return this.getFilesInDirectory(parent.resourceUri.fsPath);
+                if (parent.itemType === 'directory' && parent.resourceUri && parent.folderPath) {
+                    return this.getFilesInDirectory(parent.resourceUri.fsPath, parent.folderPath);
+                }
+                // Files expand to their functions and classes, classes to their methods
+                if (parent.itemType === 'file' && parent.resourceUri) {
+                    const symbols = await this.symbolMetrics.getSymbols(parent.resourceUri.fsPath);
+                    return symbols.map(symbol => this.createSymbolItem(parent.resourceUri!.fsPath, symbol));
+                }
+                if (parent.itemType === 'symbol' && parent.symbol && parent.symbolFile) {
+                    return parent.symbol.children.map(symbol => this.createSymbolItem(parent.symbolFile!, symbol));
                 }
                 return [];
         }
     }
 
-    private getRecommendations(stats: WorkspaceStats): TreeItem[] {
+    private async getChangedFileItems(folderPath?: string): Promise<TreeItem[]> {
+        const deltas = await this.getBaselineDeltas();
+        const prefix = folderPath ? folderPath + path.sep : '';
+        const growers = [...(deltas?.files || [])]
+            .filter(([filePath, delta]) => delta > 0 && filePath.startsWith(prefix))
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_CHANGED_FILES);
+
+        if (growers.length === 0) {
+            return [new TreeItem(t('No files grew since the baseline'), 'stat', vscode.TreeItemCollapsibleState.None)];
+        }
+
+        return growers.map(([filePath, delta]) => {
+            const item = new TreeItem(
+                path.basename(filePath),
+                'file',
+                vscode.TreeItemCollapsibleState.None,
+                `+${delta.toLocaleString()}`,
+                undefined,
+                {
+                    command: 'vscode.open',
+                    title: 'Open File',
+                    arguments: [vscode.Uri.file(filePath)]
+                },
+                vscode.Uri.file(filePath)
+            );
+            item.tooltip = vscode.workspace.asRelativePath(filePath);
+            item.folderPath = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+            return item;
+        });
+    }
+
+    private async getLongFunctionItems(folderPath?: string): Promise<TreeItem[]> {
+        const minLines = this.getLongFunctionLines();
+        const longSymbols = await this.rankSymbols(folderPath, minLines, filePaths =>
+            this.symbolMetrics.getLongSymbols(filePaths, minLines, MAX_LONG_FUNCTIONS)
+        );
+
+        if (longSymbols.length === 0) {
+            return [new TreeItem(t('No long functions found'), 'stat', vscode.TreeItemCollapsibleState.None)];
+        }
+
+        return longSymbols.map(({ filePath, name, symbol }) => this.createRankedSymbolItem(
+            filePath,
+            name,
+            symbol,
+            `${t('{0} lines', symbol.lines)} · ${path.basename(filePath)}`
+        ));
+    }
+
+    private async getComplexFunctionItems(folderPath?: string): Promise<TreeItem[]> {
+        const complexSymbols = await this.rankSymbols(folderPath, 0, filePaths =>
+            this.symbolMetrics.getComplexSymbols(filePaths, this.getMaxCognitiveComplexity(), MAX_COMPLEX_FUNCTIONS)
+        );
+
+        if (complexSymbols.length === 0) {
+            return [new TreeItem(t('No complex TypeScript or JavaScript functions found'), 'stat', vscode.TreeItemCollapsibleState.None)];
+        }
+
+        return complexSymbols.map(({ filePath, name, symbol }) => this.createRankedSymbolItem(
+            filePath,
+            name,
+            symbol,
+            `${t('cognitive {0} · cyclomatic {1}', symbol.complexity!.cognitive, symbol.complexity!.cyclomatic)} · ${path.basename(filePath)}`
+        ));
+    }
+
+    private async getDuplicateItems(totalLines: number, folderPath?: string): Promise<TreeItem[]> {
+        const report = await vscode.window.withProgress({ location: { viewId: 'lineCountView' } }, () => this.getDuplicates());
+        // A folder's section lists the copies that live in it
+        const clones = folderPath
+            ? report.clones.filter(clone => clone.duplicate.filePath.startsWith(folderPath + path.sep))
+            : report.clones;
+
+        if (clones.length === 0) {
+            return [new TreeItem(t('No duplicated code found'), 'stat', vscode.TreeItemCollapsibleState.None)];
+        }
+
+        const summary = folderPath ? summarizeClones(clones) : report.summary;
+        const percent = totalLines > 0 ? ` (${(summary.duplicatedLines / totalLines * 100).toFixed(1)}%)` : '';
+        const items = [new TreeItem(
+            `${t('Duplicated lines: {0}', summary.duplicatedLines.toLocaleString())}${percent}`,
+            'stat',
+            vscode.TreeItemCollapsibleState.None,
+            t('{0} blocks in {1} files', summary.clones, summary.files)
+        )];
+
+        for (const clone of clones.slice(0, MAX_DUPLICATES)) {
+            const { original, duplicate } = clone;
+            const item = new TreeItem(
+                `${path.basename(duplicate.filePath)}:${duplicate.startLine + 1}–${duplicate.endLine + 1}`,
+                'duplicate',
+                vscode.TreeItemCollapsibleState.None,
+                `${t('{0} lines', clone.lines)} ↔ ${path.basename(original.filePath)}:${original.startLine + 1}`,
+                undefined,
+                {
+                    command: 'file-line-counter.openDuplicate',
+                    title: 'Open Side by Side',
+                    arguments: [clone]
+                }
+            );
+            item.iconPath = new vscode.ThemeIcon('copy');
+            item.tooltip = `${vscode.workspace.asRelativePath(duplicate.filePath)}:${duplicate.startLine + 1}–${duplicate.endLine + 1}\n`
+                + `↔ ${vscode.workspace.asRelativePath(original.filePath)}:${original.startLine + 1}–${original.endLine + 1}\n`
+                + t('{0} tokens', clone.tokens);
+            items.push(item);
+        }
+        return items;
+    }
+
+    // Copy-pasted blocks across every counted text file, longest first
+    async getDuplicates(): Promise<DuplicateReport> {
+        if (this.cachedDuplicates) {
+            return this.cachedDuplicates;
+        }
+
+        const registry = this.getLanguageRegistry();
+        const files: { path: string; language: LanguageDefinition }[] = [];
+        for (const file of await this.getCountedFiles()) {
+            // Data and markup files repeat themselves by nature and are not compared
+            const language = file.counts.kind === 'text' && registry.isCode(file.language) ? registry.detect(file.path) : undefined;
+            if (language) {
+                files.push({ path: file.path, language });
+            }
+        }
+
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        this.cachedDuplicates = await this.duplicateService.findDuplicates(files, {
+            minTokens: config.get<number>('duplicateMinTokens') || 50,
+            minLines: config.get<number>('duplicateMinLines') || 5
+        });
+        return this.cachedDuplicates;
+    }
+
+    // Runs a symbol ranking over the counted code files of one folder (or all), with progress on the view.
+    // Files shorter than `minLines` cannot hold a match, so their symbol providers are never started.
+    private async rankSymbols(folderPath: string | undefined, minLines: number, rank: (filePaths: string[]) => Promise<LongSymbol[]>): Promise<LongSymbol[]> {
+        const prefix = folderPath ? folderPath + path.sep : '';
+        const registry = this.getLanguageRegistry();
+        const filePaths = (await this.getCountedFiles())
+            .filter(file => file.counts.kind === 'text' && file.counts.total >= minLines && registry.isCode(file.language) && file.path.startsWith(prefix))
+            .map(file => file.path);
+
+        return vscode.window.withProgress({ location: { viewId: 'lineCountView' } }, () => rank(filePaths));
+    }
+
+    private createRankedSymbolItem(filePath: string, name: string, symbol: SymbolMetric, description: string): TreeItem {
+        const item = this.createSymbolItem(filePath, { ...symbol, name, children: [] }, description);
+        item.tooltip = `${item.tooltip}\n${vscode.workspace.asRelativePath(filePath)}:${symbol.startLine + 1}`;
+        return item;
+    }
+
+    private createSymbolItem(filePath: string, symbol: SymbolMetric, description = `[${symbol.lines}]`): TreeItem {
+        const item = new TreeItem(
+            symbol.name,
+            'symbol',
+            symbol.children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            description,
+            undefined,
+            {
+                command: 'vscode.open',
+                title: 'Go to Symbol',
+                arguments: [vscode.Uri.file(filePath), { selection: new vscode.Range(symbol.startLine, 0, symbol.startLine, 0) }]
+            }
+        );
+        // No resourceUri: file decorations (badges, colours) would otherwise repeat on every symbol
+        item.symbol = symbol;
+        item.symbolFile = filePath;
+        item.iconPath = new vscode.ThemeIcon(`symbol-${symbol.kind === 'accessor' ? 'property' : symbol.kind}`);
+        const complexity = symbol.complexity
+            ? `\n${t('cognitive {0} · cyclomatic {1}', symbol.complexity.cognitive, symbol.complexity.cyclomatic)}`
+            : '';
+        item.tooltip = `${symbol.name} (${symbol.kind})\n${t('{0} lines', symbol.lines)}${complexity}`;
+        return item;
+    }
+
+    // Added/removed lines for one workspace folder, or for all of them combined
+    private async getSummaryDelta(folderPath?: string): Promise<LineDelta | undefined> {
+        const deltas = await this.getBaselineDeltas();
+        if (!deltas) {
+            return undefined;
+        }
+
+        const folderPaths = folderPath ? [folderPath] : (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+        const total: LineDelta = { added: 0, removed: 0 };
+        for (const folder of folderPaths) {
+            const delta = deltas.directories.get(folder);
+            total.added += delta?.added || 0;
+            total.removed += delta?.removed || 0;
+        }
+        return total;
+    }
+
+    private async getBaselineDeltas(): Promise<BaselineDeltas | undefined> {
+        const baseline = this.baselines.getActive();
+        if (!baseline) {
+            return undefined;
+        }
+        if (this.cachedDeltas) {
+            return this.cachedDeltas;
+        }
+
+        const countMode = this.getCountMode();
+        const registry = this.getLanguageRegistry();
+        const roots = (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+        const current = new Map((await this.getCountedFiles()).map(file => [file.path, file.lineCount]));
+
+        // Baseline files that the current rules no longer count are left out, so changing
+        // ignore lists or languages does not show up as removed lines
+        const previous = new Map<string, number>();
+        for (const [filePath, counts] of Object.entries(baseline.files)) {
+            const root = roots.find(r => filePath.startsWith(r + path.sep));
+            if (root && registry.detect(filePath) && !this.getIgnoreMatcher(root).isExcluded(filePath, false, true)) {
+                previous.set(filePath, selectCount(counts, countMode));
+            }
+        }
+
+        this.cachedDeltas = computeDeltas(current, previous, roots);
+        return this.cachedDeltas;
+    }
+
+    // Counts of every file in the summary, for saving as a baseline snapshot
+    async getFileCounts(): Promise<Record<string, LineCounts>> {
+        const counts: Record<string, LineCounts> = {};
+        for (const file of await this.getCountedFiles()) {
+            counts[file.path] = file.counts;
+        }
+        return counts;
+    }
+
+    // Every file included in the summary statistics, across all workspace folders
+    async getCountedFiles(): Promise<FileInfo[]> {
+        const files: FileInfo[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            for (const file of (await this.getFolderFiles(folder.uri.fsPath)).values()) {
+                if (isCounted(file)) {
+                    files.push(file);
+                }
+            }
+        }
+        return files;
+    }
+
+    // Everything the Summary shows, plus one row per counted file, for exported reports
+    async getReportData(): Promise<ReportData> {
+        const stats = await this.getWorkspaceStats();
+        const folders = vscode.workspace.workspaceFolders || [];
+        const thresholds = this.getThresholds();
+
+        const reportPath = (filePath: string) => {
+            const folder = folders.find(f => filePath.startsWith(f.uri.fsPath + path.sep));
+            const relativePath = folder ? path.relative(folder.uri.fsPath, filePath) : filePath;
+            return (folders.length > 1 && folder ? path.join(folder.name, relativePath) : relativePath).replace(/\\/g, '/');
+        };
+
+        const files: ReportData['files'] = (await this.getCountedFiles()).map(file => {
+            const bucket = thresholds.find(t => file.lineCount >= t.lines);
+            return {
+                path: reportPath(file.path),
+                language: file.language,
+                lines: file.lineCount,
+                code: file.counts.code,
+                comment: file.counts.comment,
+                blank: file.counts.blank,
+                bucket: bucket ? `>=${bucket.lines}` : ''
+            };
+        });
+
+        return {
+            countMode: this.getCountMode(),
+            summary: {
+                totalFiles: stats.totalFiles,
+                totalLines: stats.totalLines,
+                averageLines: stats.averageLines,
+                code: stats.breakdown.code,
+                comment: stats.breakdown.comment,
+                blank: stats.breakdown.blank
+            },
+            languages: stats.languages.map(l => ({ ...l })),
+            files,
+            largeFileThreshold: this.getSummaryThreshold(),
+            largeFiles: stats.largeFiles.map(f => ({ path: reportPath(f.path), lines: f.lineCount })),
+            recommendations: (await this.getRecommendations(stats, true)).map(item => item.description ? `${item.label} - ${item.description}` : item.label)
+        };
+    }
+
+    // Exported reports stay in English with plain numbers, whatever the UI language
+    private async getRecommendations(stats: CodeStats, forExport = false): Promise<TreeItem[]> {
+        const text = forExport ? formatMessage : t;
+        const count = (value: number) => forExport ? String(value) : value.toLocaleString();
         const recommendations: TreeItem[] = [];
         const threshold = this.getSummaryThreshold();
 
-        // Very large files - suggest splitting (TRANSLATED)
+        // Very large files - suggest splitting
         const veryLargeFiles = stats.largeFiles.filter(f => f.lineCount >= 2000);
         for (const file of veryLargeFiles) {
+            recommendations.push(this.createSplitRecommendation(
+                file,
+                text('Consider splitting {0}', file.name),
+                text('{0} lines - very large file', count(file.lineCount))
+            ));
+        }
+
+        // Large TS/JS files that also contain hard-to-follow functions - suggest splitting
+        const maxCognitive = this.getMaxCognitiveComplexity();
+        const complexLargeFiles: { file: FileInfo; cognitive: number }[] = [];
+        for (const file of stats.largeFiles.filter(f => f.lineCount < 2000)) {
+            const complexity = await this.symbolMetrics.getFileComplexity(file.path);
+            if (complexity?.worst && complexity.worst.cognitive >= maxCognitive) {
+                complexLargeFiles.push({ file, cognitive: complexity.cognitive });
+            }
+        }
+        complexLargeFiles.sort((a, b) => b.cognitive - a.cognitive);
+        for (const { file, cognitive } of complexLargeFiles.slice(0, MAX_COMPLEX_SPLITS)) {
+            recommendations.push(this.createSplitRecommendation(
+                file,
+                text('Consider splitting {0}', file.name),
+                text('{0} lines · cognitive {1} - large and complex', count(file.lineCount), cognitive)
+            ));
+        }
+
+        // Files over the hard limit fail the command-line check in CI
+        if (stats.overLimit.length > 0) {
             recommendations.push(new TreeItem(
-                `${this.t('considerSplitting')} ${file.name}`,
+                text('{0} files exceed the limit of {1} lines', stats.overLimit.length, this.getMaxFileLines()),
                 'recommendation',
                 vscode.TreeItemCollapsibleState.None,
-                `${file.lineCount.toLocaleString()} ${this.t('linesThreshold')} - ${this.t('veryLargeFile')}`
+                stats.overLimit.slice(0, 3).map(f => f.name).join(', ')
             ));
         }
 
-        // General recommendation about large files (TRANSLATED)
+        // General recommendation about large files
         if (stats.largeFiles.length >= 3) {
             recommendations.push(new TreeItem(
-                `${stats.largeFiles.length} ${this.t('filesExceed')} ${threshold} ${this.t('linesThreshold')}`,
+                text('{0} files exceed {1} lines', stats.largeFiles.length, threshold),
                 'recommendation',
                 vscode.TreeItemCollapsibleState.None,
-                this.t('considerRefactoring')
+                text('Consider refactoring for better maintainability')
             ));
         }
 
-        // High average lines (TRANSLATED)
+        // High average lines
         if (stats.averageLines > 300) {
             recommendations.push(new TreeItem(
-                this.t('highAverageSize'),
+                text('High average file size'),
                 'recommendation',
                 vscode.TreeItemCollapsibleState.None,
-                `${stats.averageLines} ${this.t('linesThreshold')} - ${this.t('considerSmaller')}`
+                text('{0} lines - consider smaller modules', stats.averageLines)
             ));
         }
 
         if (recommendations.length === 0) {
             recommendations.push(new TreeItem(
-                this.t('noIssues'),
+                text('✅ No issues detected'),
                 'recommendation',
                 vscode.TreeItemCollapsibleState.None,
-                this.t('wellOrganized')
+                text('Your codebase looks well-organized!')
             ));
         }
 
         return recommendations;
     }
 
-    private async getFilesInDirectory(dirPath: string): Promise<TreeItem[]> {
+    // Split suggestions get their own context value so only they offer "Propose Split with AI"
+    private createSplitRecommendation(file: FileInfo, label: string, description: string): TreeItem {
+        const item = new TreeItem(
+            label,
+            'recommendation',
+            vscode.TreeItemCollapsibleState.None,
+            description
+        );
+        item.filePath = file.path;
+        item.contextValue = 'splitRecommendation';
+        return item;
+    }
+
+    // Counted files that pass the filters, plus every directory above them; undefined when nothing is filtered
+    private getVisiblePaths(folderPath: string, files: Map<string, FileInfo>): Set<string> | undefined {
+        if (!this.isFiltered()) {
+            return undefined;
+        }
+
+        const { minLines, pathFilter } = this.getViewOptions();
+        const filter = pathFilter.toLowerCase();
+        const visible = new Set<string>();
+
+        for (const file of files.values()) {
+            const relativePath = path.relative(folderPath, file.path).replace(/\\/g, '/').toLowerCase();
+            if (!isCounted(file) || file.lineCount < minLines || !relativePath.includes(filter)) {
+                continue;
+            }
+            for (let current = file.path; current !== folderPath && !visible.has(current); current = path.dirname(current)) {
+                visible.add(current);
+            }
+        }
+        return visible;
+    }
+
+    private async getFilesInDirectory(dirPath: string, folderPath: string): Promise<TreeItem[]> {
         if (!fs.existsSync(dirPath)) {
             return [];
         }
 
-        const workspaceRoot = vscode.workspace.workspaceFolders![0].uri.fsPath;
+        const matcher = this.getIgnoreMatcher(folderPath);
+        const countMode = this.getCountMode();
+        const registry = this.getLanguageRegistry();
+        const { sortBy } = this.getViewOptions();
+        const visible = this.getVisiblePaths(folderPath, await this.getFolderFiles(folderPath));
+        const deltas = await this.getBaselineDeltas();
         const files = fs.readdirSync(dirPath).sort((a, b) => {
             // Pre-sort alphabetically to ensure consistent sub-sorting
             return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
         });
 
-        const items: TreeItem[] = [];
-        const dirItems: TreeItem[] = [];
-        const fileItems: TreeItem[] = [];
+        // Sort keys travel with the items; names are already in order
+        const dirItems: { item: TreeItem; lines: number; modified: number }[] = [];
+        const fileItems: { item: TreeItem; lines: number; modified: number }[] = [];
 
         for (const file of files) {
             const filePath = path.join(dirPath, file);
 
-            // Skip ignored files
-            if (this.isIgnored(filePath, workspaceRoot)) {
-                continue;
-            }
-
-            // If include file is enabled, skip files not in include patterns
-            if (!this.isIncluded(filePath, workspaceRoot)) {
+            // Filters hide files that do not match and folders without any match
+            if (visible && !visible.has(filePath)) {
                 continue;
             }
 
             try {
                 const stat = fs.statSync(filePath);
 
+                // Skip ignored files and, in whitelist mode, files not in include patterns
+                if (matcher.isExcluded(filePath, stat.isDirectory())) {
+                    continue;
+                }
+
                 if (stat.isDirectory()) {
-                    dirItems.push(new TreeItem(
+                    const totals = this.directoryTotals.get(filePath);
+                    const description = [
+                        totals ? `[${totals.lines}] · ${t('{0} files', totals.files)}` : '',
+                        formatDelta(deltas?.directories.get(filePath))
+                    ].filter(part => part).join(' · ');
+                    const dirItem = new TreeItem(
                         file,
                         'directory',
                         vscode.TreeItemCollapsibleState.Collapsed,
-                        undefined,
+                        description || undefined,
                         undefined,
                         undefined,
                         vscode.Uri.file(filePath)
-                    ));
+                    );
+                    dirItem.folderPath = folderPath;
+                    dirItems.push({ item: dirItem, lines: totals?.lines || 0, modified: stat.mtimeMs });
                 } else {
-                    const lineCount = await countLines(filePath);
-                    fileItems.push(new TreeItem(
+                    const language = registry.detect(filePath);
+                    const counts = await this.index.getCounts(filePath, language, this.getLargeFileBytes());
+                    const delta = deltas?.files.get(filePath);
+                    // Analysed code files can be expanded to their functions and classes
+                    const item = new TreeItem(
                         file,
                         'file',
-                        vscode.TreeItemCollapsibleState.None,
-                        `[${lineCount}]`,
+                        language && registry.isCode(language.name) && counts.kind === 'text' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+                        delta ? `${this.formatCount(counts, countMode)} ${formatDelta(netDelta(delta))}` : this.formatCount(counts, countMode),
                         undefined,
                         {
                             command: 'vscode.open',
@@ -503,15 +1079,31 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
                             arguments: [vscode.Uri.file(filePath)]
                         },
                         vscode.Uri.file(filePath)
-                    ));
+                    );
+                    // Counted files get their tooltip on hover, when complexity can be added to it
+                    item.breakdown = this.formatBreakdown(language ? `${file} (${language.name})` : file, counts);
+                    item.tooltip = counts.kind === 'text' ? undefined : item.breakdown;
+                    if (counts.kind === 'binary') {
+                        item.iconPath = new vscode.ThemeIcon('file-binary');
+                    }
+                    // Binary and unreadable files sort below every counted file
+                    const lines = counts.kind === 'binary' || counts.kind === 'unreadable' ? -1 : selectCount(counts, countMode);
+                    fileItems.push({ item, lines, modified: stat.mtimeMs });
                 }
             } catch (e) {
                 // Ignore inaccessible files
             }
         }
 
+        // Largest or most recently modified first; Array.sort is stable, so ties stay alphabetical
+        if (sortBy !== 'name') {
+            const key = sortBy === 'lines' ? 'lines' : 'modified';
+            dirItems.sort((a, b) => b[key] - a[key]);
+            fileItems.sort((a, b) => b[key] - a[key]);
+        }
+
         // Return directories first, then files
-        return [...dirItems, ...fileItems];
+        return [...dirItems, ...fileItems].map(entry => entry.item);
     }
 
     private getSummaryThreshold(): number {
@@ -519,102 +1111,166 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem> {
         return config.get<number>('summaryThreshold') || 1000;
     }
 
-    private getThresholds(): { lines: number; color: string }[] {
+    // SonarSource's default limit for cognitive complexity
+    private getMaxCognitiveComplexity(): number {
         const config = vscode.workspace.getConfiguration('fileLineCounter');
-        const thresholdsConfig = config.get<any>('thresholds');
+        return config.get<number>('maxCognitiveComplexity') || 15;
+    }
 
-        let thresholds: { lines: number; color: string }[] = [];
+    private getLongFunctionLines(): number {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return config.get<number>('longFunctionLines') || 50;
+    }
 
-        if (Array.isArray(thresholdsConfig)) {
-            thresholds = thresholdsConfig;
-        } else if (typeof thresholdsConfig === 'object' && thresholdsConfig !== null) {
-            thresholds = Object.entries(thresholdsConfig).map(([linesStr, color]) => ({
-                lines: parseInt(linesStr, 10),
-                color: color as string
-            })).filter(t => !isNaN(t.lines));
-        }
+    // 0 means no limit
+    private getMaxFileLines(): number {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return config.get<number>('maxFileLines') || 0;
+    }
 
-        // Sort by lines descending so higher thresholds are checked first
-        return [...thresholds].sort((a, b) => b.lines - a.lines);
+    private getCountMode(): CountMode {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return config.get<CountMode>('countMode') || 'total';
     }
 
-    async getWorkspaceStats(): Promise<WorkspaceStats> {
-        if (this.cachedStats) {
-            return this.cachedStats;
+    private getLargeFileBytes(): number {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        const megabytes = config.get<number>('largeFileSizeMB');
+        return megabytes && megabytes > 0 ? megabytes * 1024 * 1024 : DEFAULT_LARGE_FILE_BYTES;
+    }
+
+    // Binary and unreadable files are marked instead of showing a misleading [0]
+    private formatCount(counts: LineCounts, mode: CountMode): string {
+        switch (counts.kind) {
+            case 'binary':
+                return '[binary]';
+            case 'unreadable':
+                return '[skipped]';
+            default:
+                return `[${selectCount(counts, mode)}]`;
         }
+    }
 
-        await this.loadIgnorePatterns();
-        const workspaceRoot = vscode.workspace.workspaceFolders![0].uri.fsPath;
-        const allFiles = await this.getAllCodeFiles(workspaceRoot);
-        const threshold = this.getSummaryThreshold();
+    // Shared so that the tree and the AI prompt reuse one symbol cache
+    getSymbolMetrics(): SymbolMetricsService {
+        return this.symbolMetrics;
+    }
 
-        const filesWithCounts: FileInfo[] = [];
-        let totalLines = 0;
+    getLanguageRegistry(): LanguageRegistry {
+        if (!this.languageRegistry) {
+            const config = vscode.workspace.getConfiguration('fileLineCounter');
+            this.languageRegistry = new LanguageRegistry(config.get<LanguageDefinition[]>('languages') || []);
+        }
+        return this.languageRegistry;
+    }
 
-        for (const filePath of allFiles) {
-            const lineCount = await countLines(filePath);
-            const fileName = path.basename(filePath);
-            filesWithCounts.push({ path: filePath, name: fileName, lineCount });
-            totalLines += lineCount;
+    private formatBreakdown(name: string, counts: LineCounts): string {
+        switch (counts.kind) {
+            case 'binary':
+                return `${name}\n${t('Binary file - not counted')}`;
+            case 'unreadable':
+                return `${name}\n${t('Could not be read - not counted')}`;
+            case 'large':
+                return `${name}\n${t('Large file - only newlines were counted: {0}', counts.total.toLocaleString())}`;
+            default:
+                return `${name}\n${t('Code: {0} · Comments: {1} · Blank: {2}', counts.code, counts.comment, counts.blank)}`;
         }
+    }
 
-        const largeFiles = filesWithCounts
-            .filter(f => f.lineCount >= threshold)
-            .sort((a, b) => b.lineCount - a.lineCount);
+    private getThresholds(): ThresholdConfig[] {
+        return parseThresholds(vscode.workspace.getConfiguration('fileLineCounter').get('thresholds'));
+    }
 
-        this.cachedStats = {
-            totalFiles: filesWithCounts.length,
-            totalLines,
-            averageLines: filesWithCounts.length > 0 ? Math.round(totalLines / filesWithCounts.length) : 0,
-            largeFiles
-        };
+    async getWorkspaceStats(): Promise<WorkspaceStats> {
+        if (this.cachedStats) {
+            return this.cachedStats;
+        }
 
+        const folders: FolderStats[] = [];
+        const allFiles: FileInfo[] = [];
+        const policies: BudgetPolicy[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const files = await this.getFolderFiles(folder.uri.fsPath);
+            const folderFiles = [...files.values()];
+            const policy = this.getBudgetPolicy(folder.uri.fsPath);
+            folders.push({ name: folder.name, path: folder.uri.fsPath, ...buildStats(folderFiles, this.getSummaryThreshold(), this.getMaxFileLines(), [policy]) });
+            policies.push(policy);
+            allFiles.push(...folderFiles);
+        }
+
+        this.cachedStats = { ...buildStats(allFiles, this.getSummaryThreshold(), this.getMaxFileLines(), policies), folders };
         return this.cachedStats;
     }
 
-    private async getAllCodeFiles(dirPath: string): Promise<string[]> {
-        const files: string[] = [];
-        const workspaceRoot = vscode.workspace.workspaceFolders![0].uri.fsPath;
+    async getFolderStats(folderPath: string): Promise<FolderStats | undefined> {
+        const stats = await this.getWorkspaceStats();
+        return stats.folders.find(f => f.path === folderPath);
+    }
 
-        const scanDir = async (dir: string) => {
-            try {
-                const entries = fs.readdirSync(dir);
-                for (const entry of entries) {
-                    const fullPath = path.join(dir, entry);
+    // Scans a folder once; concurrent callers (tree, badges, summary) share the same scan
+    private getFolderFiles(folderPath: string): Promise<Map<string, FileInfo>> {
+        const files = this.folderFiles.get(folderPath);
+        if (files) {
+            return Promise.resolve(files);
+        }
 
-                    // Skip ignored files/directories
-                    if (this.isIgnored(fullPath, workspaceRoot)) {
-                        continue;
-                    }
+        let scan = this.folderScans.get(folderPath);
+        if (!scan) {
+            scan = this.countFolderFiles(folderPath).then(counted => {
+                const scanned = new Map(counted.map(f => [f.path, f]));
+                // Ignore results of a scan that was superseded by a refresh
+                if (this.folderScans.get(folderPath) === scan) {
+                    this.folderScans.delete(folderPath);
+                    this.folderFiles.set(folderPath, scanned);
+                    this.rebuildDirectoryTotals(folderPath, scanned);
+                }
+                return scanned;
+            });
+            this.folderScans.set(folderPath, scan);
+        }
+        return scan;
+    }
 
-                    const stat = fs.statSync(fullPath);
+    private rebuildDirectoryTotals(folderPath: string, files: Map<string, FileInfo>): void {
+        const prefix = folderPath + path.sep;
+        for (const key of this.directoryTotals.keys()) {
+            if (key === folderPath || key.startsWith(prefix)) {
+                this.directoryTotals.delete(key);
+            }
+        }
 
-                    // If include file is enabled, skip files not in include patterns
-                    if (this.useIncludeFile && stat.isFile() && !this.isIncluded(fullPath, workspaceRoot)) {
-                        continue;
-                    }
+        for (const file of files.values()) {
+            this.addToDirectoryTotals(folderPath, file, 1);
+        }
+        this.fireDirectoryTotals([...this.directoryTotals.keys()].filter(k => k === folderPath || k.startsWith(prefix)));
+    }
 
-                    if (stat.isDirectory()) {
-                        await scanDir(fullPath);
-                    } else if (stat.isFile()) {
-                        const ext = path.extname(entry).toLowerCase();
-                        const codeExtensions = ['.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.c', '.cpp', '.h', '.cs', '.go', '.rb', '.php', '.swift', '.kt', '.rs', '.vue', '.svelte', '.html', '.css', '.scss', '.less', '.json', '.yaml', '.yml', '.xml', '.md', '.txt'];
-                        if (codeExtensions.includes(ext)) {
-                            files.push(fullPath);
-                        }
-                    }
-                }
-            } catch (error) {
-                // Ignore access errors
-            }
-        };
+    private async countFolderFiles(folderPath: string): Promise<FileInfo[]> {
+        const codeFiles = await scanCodeFiles(folderPath, this.getIgnoreMatcher(folderPath), this.getLanguageRegistry());
+        // Counting streams each file, so a few can be read side by side without blocking
+        return mapWithConcurrency(codeFiles, COUNT_CONCURRENCY, file => this.createFileInfo(file.path, file.language));
+    }
 
-        await scanDir(dirPath);
-        return files;
+    private async createFileInfo(filePath: string, language: LanguageDefinition): Promise<FileInfo> {
+        const counts = await this.index.getCounts(filePath, language, this.getLargeFileBytes());
+        return toFileInfo(filePath, language, counts, this.getCountMode());
     }
 }
 
 class TreeItem extends vscode.TreeItem {
+    // Workspace folder the item belongs to (files, directories and per-folder summaries)
+    public folderPath?: string;
+    // Function, method or class shown by a 'symbol' item
+    public symbol?: SymbolMetric;
+    public symbolFile?: string;
+    // File a large file entry or split recommendation refers to
+    public filePath?: string;
+    // Saved analysis shown by an 'aiAnalysis' item
+    public analysisId?: string;
+    // Line breakdown of a file, shown in its tooltip
+    public breakdown?: string;
+
     constructor(
         public readonly label: string,
         public readonly itemType: TreeItemType,
@@ -0,0 +1,388 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { FileTreeProvider } from './FileTreeProvider';
+import { analyzeContent, CountMode, selectCount } from './lineCounter';
+import { LanguageDefinition } from './languageRegistry';
+import { getLanguage, isRtl, t } from './localization';
+
+type Granularity = 'commit' | 'week';
+
+interface TrendScope {
+    folder: vscode.WorkspaceFolder;
+    fsPath: string;
+    label: string;
+}
+
+interface TrendPoint {
+    commit: string;
+    date: Date;
+    lines: number;
+    files: number;
+}
+
+// Tree items (file, directory, workspace folder header) or an Explorer/editor Uri
+type TrendTarget = vscode.Uri | { resourceUri?: vscode.Uri; folderPath?: string };
+
+// Blobs are sent to 'git cat-file --batch' in groups to bound memory use
+const BLOB_BATCH_SIZE = 500;
+
+export class GitHistoryService {
+    // Blob contents never change, so counts are cached by blob id and language
+    private blobCounts = new Map<string, { lines: number } | null>();
+
+    constructor(private readonly fileTreeProvider: FileTreeProvider) { }
+
+    async showTrend(target?: TrendTarget): Promise<void> {
+        const scope = await this.pickScope(target);
+        if (!scope) {
+            return;
+        }
+
+        const granularity = await this.pickGranularity();
+        if (!granularity) {
+            return;
+        }
+
+        try {
+            const points = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: t('Walking git history for {0}...', scope.label),
+                cancellable: true
+            }, (progress, token) => this.collectTrend(scope, granularity, progress, token));
+
+            if (points) {
+                this.showTrendPanel(scope, granularity, points);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(t('Line count history failed: {0}', error instanceof Error ? error.message : t('Unknown error')));
+        }
+    }
+
+    private async pickScope(target?: TrendTarget): Promise<TrendScope | undefined> {
+        const uri = target instanceof vscode.Uri
+            ? target
+            : target?.resourceUri || (target?.folderPath ? vscode.Uri.file(target.folderPath) : undefined);
+
+        if (uri) {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            return folder ? { folder, fsPath: uri.fsPath, label: this.relativeLabel(folder, uri.fsPath) } : undefined;
+        }
+
+        const folders = vscode.workspace.workspaceFolders || [];
+        const items: (vscode.QuickPickItem & { scope?: TrendScope; chooseFolder?: boolean })[] = folders.map(folder => ({
+            label: `$(root-folder) ${folder.name}`,
+            description: t('Whole workspace folder'),
+            scope: { folder, fsPath: folder.uri.fsPath, label: folder.name }
+        }));
+
+        const editorUri = vscode.window.activeTextEditor?.document.uri;
+        const editorFolder = editorUri && vscode.workspace.getWorkspaceFolder(editorUri);
+        if (editorUri && editorFolder) {
+            items.push({
+                label: `$(file) ${path.basename(editorUri.fsPath)}`,
+                description: t('Current file'),
+                scope: { folder: editorFolder, fsPath: editorUri.fsPath, label: this.relativeLabel(editorFolder, editorUri.fsPath) }
+            });
+        }
+        items.push({ label: `$(folder) ${t('Choose a folder...')}`, chooseFolder: true });
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: t('Show the line count trend for...') });
+        if (!picked?.chooseFolder) {
+            return picked?.scope;
+        }
+
+        const selection = await vscode.window.showOpenDialog({
+            canSelectFolders: true,
+            canSelectFiles: false,
+            canSelectMany: false,
+            defaultUri: folders[0]?.uri
+        });
+        const folderUri = selection?.[0];
+        const folder = folderUri && vscode.workspace.getWorkspaceFolder(folderUri);
+        if (!folderUri || !folder) {
+            return undefined;
+        }
+        return { folder, fsPath: folderUri.fsPath, label: this.relativeLabel(folder, folderUri.fsPath) };
+    }
+
+    private async pickGranularity(): Promise<Granularity | undefined> {
+        const picked = await vscode.window.showQuickPick([
+            { label: t('Per commit'), granularity: 'commit' as Granularity },
+            { label: t('Per week'), granularity: 'week' as Granularity }
+        ], { placeHolder: t('Group the trend by...') });
+        return picked?.granularity;
+    }
+
+    private relativeLabel(folder: vscode.WorkspaceFolder, fsPath: string): string {
+        const relativePath = path.relative(folder.uri.fsPath, fsPath).replace(/\\/g, '/');
+        return relativePath ? `${folder.name}/${relativePath}` : folder.name;
+    }
+
+    private getMaxPoints(): number {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return config.get<number>('historyMaxPoints') || 50;
+    }
+
+    private getCountMode(): CountMode {
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        return config.get<CountMode>('countMode') || 'total';
+    }
+
+    private async collectTrend(
+        scope: TrendScope,
+        granularity: Granularity,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<TrendPoint[] | undefined> {
+        const repoRoot = (await this.git(scope.folder.uri.fsPath, ['rev-parse', '--show-toplevel'])).toString('utf-8').trim();
+        const pathspec = path.relative(repoRoot, scope.fsPath).replace(/\\/g, '/') || '.';
+
+        const commits = await this.listCommits(repoRoot, pathspec, granularity);
+        if (commits.length === 0) {
+            throw new Error(t('No commits found for {0}', scope.label));
+        }
+
+        const matcher = this.fileTreeProvider.getIgnoreMatcher(scope.folder.uri.fsPath);
+        const registry = this.fileTreeProvider.getLanguageRegistry();
+        const countMode = this.getCountMode();
+        const points: TrendPoint[] = [];
+
+        // Oldest first so the chart reads left to right
+        for (const [i, commit] of commits.reverse().entries()) {
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+            progress.report({ message: `${i + 1}/${commits.length} (${commit.hash.slice(0, 7)})`, increment: 100 / commits.length });
+
+            // Same file set as the Summary: recognised languages, not ignored or outside the whitelist
+            const blobs: { sha: string; language: LanguageDefinition }[] = [];
+            for (const entry of await this.listBlobs(repoRoot, commit.hash, pathspec)) {
+                const absolutePath = path.join(repoRoot, entry.path);
+                const language = registry.detect(absolutePath);
+                if (language && !matcher.isExcluded(absolutePath, false, true)) {
+                    blobs.push({ sha: entry.sha, language });
+                }
+            }
+
+            await this.countBlobs(repoRoot, blobs, countMode);
+
+            let lines = 0;
+            let files = 0;
+            for (const blob of blobs) {
+                const counted = this.blobCounts.get(`${blob.sha}:${blob.language.name}:${countMode}`);
+                if (counted) {
+                    lines += counted.lines;
+                    files++;
+                }
+            }
+            points.push({ commit: commit.hash, date: commit.date, lines, files });
+        }
+
+        return points;
+    }
+
+    private async listCommits(repoRoot: string, pathspec: string, granularity: Granularity): Promise<{ hash: string; date: Date }[]> {
+        const maxPoints = this.getMaxPoints();
+        const args = ['log', '--first-parent', '--format=%H%x09%ct'];
+        if (granularity === 'commit') {
+            args.push(`-n${maxPoints}`);
+        } else {
+            args.push(`--since=${maxPoints} weeks ago`);
+        }
+        args.push('--', pathspec);
+
+        const commits = (await this.git(repoRoot, args)).toString('utf-8')
+            .split('\n')
+            .filter(line => line.includes('\t'))
+            .map(line => {
+                const [hash, timestamp] = line.split('\t');
+                return { hash, date: new Date(parseInt(timestamp, 10) * 1000) };
+            });
+
+        if (granularity === 'commit') {
+            return commits;
+        }
+
+        // Newest commit of each week (weeks start on Monday, UTC); log output is newest first
+        const byWeek = new Map<number, { hash: string; date: Date }>();
+        for (const commit of commits) {
+            const day = (commit.date.getUTCDay() + 6) % 7;
+            const weekStart = Date.UTC(commit.date.getUTCFullYear(), commit.date.getUTCMonth(), commit.date.getUTCDate() - day);
+            if (!byWeek.has(weekStart)) {
+                byWeek.set(weekStart, commit);
+            }
+        }
+        return [...byWeek.values()];
+    }
+
+    private async listBlobs(repoRoot: string, commit: string, pathspec: string): Promise<{ sha: string; path: string }[]> {
+        const output = (await this.git(repoRoot, ['ls-tree', '-r', '-z', '--full-tree', commit, '--', pathspec])).toString('utf-8');
+        const blobs: { sha: string; path: string }[] = [];
+
+        // '<mode> <type> <sha>\t<path>' records separated by NUL
+        for (const record of output.split('\0')) {
+            const tab = record.indexOf('\t');
+            if (tab === -1) {
+                continue;
+            }
+            const [, type, sha] = record.slice(0, tab).split(' ');
+            if (type === 'blob') {
+                blobs.push({ sha, path: record.slice(tab + 1) });
+            }
+        }
+        return blobs;
+    }
+
+    private async countBlobs(repoRoot: string, blobs: { sha: string; language: LanguageDefinition }[], countMode: CountMode): Promise<void> {
+        const pending = new Map<string, { sha: string; language: LanguageDefinition }>();
+        for (const blob of blobs) {
+            const key = `${blob.sha}:${blob.language.name}:${countMode}`;
+            if (!this.blobCounts.has(key)) {
+                pending.set(key, blob);
+            }
+        }
+
+        const queue = [...pending.entries()];
+        for (let start = 0; start < queue.length; start += BLOB_BATCH_SIZE) {
+            const batch = queue.slice(start, start + BLOB_BATCH_SIZE);
+            const output = await this.git(repoRoot, ['cat-file', '--batch'], batch.map(([, blob]) => blob.sha).join('\n') + '\n');
+
+            // Each object is '<sha> <type> <size>\n<content>\n'
+            let offset = 0;
+            for (const [key, blob] of batch) {
+                const headerEnd = output.indexOf(10, offset);
+                if (headerEnd === -1) {
+                    break;
+                }
+                const header = output.subarray(offset, headerEnd).toString('utf-8').split(' ');
+                if (header[1] === 'missing') {
+                    this.blobCounts.set(key, null);
+                    offset = headerEnd + 1;
+                    continue;
+                }
+
+                const size = parseInt(header[2], 10);
+                const content = output.subarray(headerEnd + 1, headerEnd + 1 + size);
+                offset = headerEnd + 1 + size + 1;
+
+                // Binary blobs are skipped, like binary files in the working tree
+                if (content.subarray(0, 8000).includes(0)) {
+                    this.blobCounts.set(key, null);
+                } else {
+                    const counts = analyzeContent(content.toString('utf-8'), blob.language.comments);
+                    this.blobCounts.set(key, { lines: selectCount(counts, countMode) });
+                }
+            }
+        }
+    }
+
+    private git(cwd: string, args: string[], input?: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', args, { cwd });
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+
+            child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+            child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+            child.on('error', error => reject(new Error(`Could not run git: ${error.message}`)));
+            child.on('close', code => {
+                if (code === 0) {
+                    resolve(Buffer.concat(stdout));
+                } else {
+                    reject(new Error(`git ${args[0]} failed: ${Buffer.concat(stderr).toString('utf-8').trim()}`));
+                }
+            });
+
+            if (input !== undefined) {
+                child.stdin.end(input);
+            }
+        });
+    }
+
+    private showTrendPanel(scope: TrendScope, granularity: Granularity, points: TrendPoint[]): void {
+        const panel = vscode.window.createWebviewPanel(
+            'lineCountTrend',
+            t('Line Count Trend: {0}', scope.label),
+            vscode.ViewColumn.One,
+            { enableScripts: false }
+        );
+
+        panel.webview.html = this.getWebviewContent(scope, granularity, points);
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    private getWebviewContent(scope: TrendScope, granularity: Granularity, points: TrendPoint[]): string {
+        const width = 800;
+        const height = 300;
+        const margin = { top: 20, right: 20, bottom: 40, left: 70 };
+        const plotWidth = width - margin.left - margin.right;
+        const plotHeight = height - margin.top - margin.bottom;
+        const maxLines = Math.max(1, ...points.map(p => p.lines));
+
+        const x = (i: number) => margin.left + (points.length === 1 ? plotWidth / 2 : (i / (points.length - 1)) * plotWidth);
+        const y = (lines: number) => margin.top + plotHeight - (lines / maxLines) * plotHeight;
+        const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+        const start = isRtl() ? 'right' : 'left';
+
+        const polyline = points.map((p, i) => `${x(i).toFixed(1)},${y(p.lines).toFixed(1)}`).join(' ');
+        const markers = points.map((p, i) =>
+            `<circle cx="${x(i).toFixed(1)}" cy="${y(p.lines).toFixed(1)}" r="3"><title>${formatDate(p.date)} ${p.commit.slice(0, 7)}: ${t('{0} lines', p.lines.toLocaleString())}</title></circle>`
+        ).join('\n');
+
+        const rows = points.map((p, i) => {
+            const delta = i === 0 ? 0 : p.lines - points[i - 1].lines;
+            const deltaText = i === 0 ? '' : `${delta >= 0 ? '+' : '−'}${Math.abs(delta).toLocaleString()}`;
+            return `<tr><td>${formatDate(p.date)}</td><td><code>${p.commit.slice(0, 7)}</code></td><td>${p.lines.toLocaleString()}</td><td>${p.files}</td><td>${deltaText}</td></tr>`;
+        }).reverse().join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="${getLanguage()}" dir="${isRtl() ? 'rtl' : 'ltr'}">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${t('Line Count Trend')}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        h1 { font-size: 1.4em; color: var(--vscode-textLink-foreground); }
+        svg { max-width: 100%; height: auto; direction: ltr; }
+        .axis { stroke: var(--vscode-panel-border); }
+        .axis-label { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+        polyline { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 2; }
+        circle { fill: var(--vscode-charts-blue); }
+        table { border-collapse: collapse; margin-top: 20px; }
+        th, td { padding: 4px 12px; text-align: right; border-bottom: 1px solid var(--vscode-panel-border); }
+        th:first-child, td:first-child { text-align: ${start}; }
+    </style>
+</head>
+<body>
+    <h1>${this.escapeHtml(scope.label)} - ${granularity === 'week' ? t('lines per week') : t('lines per commit')}</h1>
+    <svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+        <line class="axis" x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${width - margin.right}" y2="${margin.top + plotHeight}" />
+        <line class="axis" x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${margin.top + plotHeight}" />
+        <text class="axis-label" x="${margin.left - 8}" y="${margin.top + 4}" text-anchor="end">${maxLines.toLocaleString()}</text>
+        <text class="axis-label" x="${margin.left - 8}" y="${margin.top + plotHeight}" text-anchor="end">0</text>
+        <text class="axis-label" x="${margin.left}" y="${height - 10}">${formatDate(points[0].date)}</text>
+        <text class="axis-label" x="${width - margin.right}" y="${height - 10}" text-anchor="end">${formatDate(points[points.length - 1].date)}</text>
+        <polyline points="${polyline}" />
+        ${markers}
+    </svg>
+    <table>
+        <thead><tr><th>${t('Date')}</th><th>${t('Commit')}</th><th>${t('Lines')}</th><th>${t('Files')}</th><th>${t('Change')}</th></tr></thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+</body>
+</html>`;
+    }
+}
@@ -1,63 +1,112 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-
-interface ThresholdConfig {
-    lines: number;
-    color: string;
-}
+import { CountMode, DEFAULT_LARGE_FILE_BYTES, LineCounts, selectCount } from './lineCounter';
+import { LanguageDefinition, LanguageRegistry } from './languageRegistry';
+import { IgnoreMatcher } from './ignoreMatcher';
+import { LineCountIndex } from './LineCountIndex';
+import { DirectoryTotals } from './FileTreeProvider';
+import { t } from './localization';
+import { parseThresholds, ThresholdConfig } from './thresholds';
 
 export class LineCountDecorationProvider implements vscode.FileDecorationProvider {
     private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[]> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
     readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[]> = this._onDidChangeFileDecorations.event;
 
-    private cache: Map<string, number> = new Map();
+    private languageRegistry: LanguageRegistry | null = null;
+    private ignoreMatchers = new Map<string, IgnoreMatcher>();
+
+    constructor(
+        private readonly index: LineCountIndex,
+        private readonly getDirectoryTotals?: (dirPath: string) => Promise<DirectoryTotals | undefined>
+    ) { }
+
+    // Re-decorates a single file; its counts are revalidated against the index
+    updateFile(uri: vscode.Uri): void {
+        this._onDidChangeFileDecorations.fire(uri);
+    }
+
+    // Re-decorates folders whose recursive totals changed
+    updateDirectories(uris: vscode.Uri[]): void {
+        this._onDidChangeFileDecorations.fire(uris);
+    }
 
     refresh(): void {
-        this.cache.clear();
+        this.languageRegistry = null;
+        this.ignoreMatchers.clear();
         this._onDidChangeFileDecorations.fire(undefined as any);
     }
 
-    private getThresholds(): ThresholdConfig[] {
+    private getCountMode(): CountMode {
         const config = vscode.workspace.getConfiguration('fileLineCounter');
-        // Handle both old (array) and new (object) formats for backward compatibility during transition
-        const thresholdsConfig = config.get<any>('thresholds');
-
-        let thresholds: ThresholdConfig[] = [];
-
-        if (Array.isArray(thresholdsConfig)) {
-            thresholds = thresholdsConfig;
-        } else if (typeof thresholdsConfig === 'object' && thresholdsConfig !== null) {
-            thresholds = Object.entries(thresholdsConfig).map(([linesStr, color]) => ({
-                lines: parseInt(linesStr, 10),
-                color: color as string
-            })).filter(t => !isNaN(t.lines));
+        return config.get<CountMode>('countMode') || 'total';
+    }
+
+    private getLanguageRegistry(): LanguageRegistry {
+        if (!this.languageRegistry) {
+            const config = vscode.workspace.getConfiguration('fileLineCounter');
+            this.languageRegistry = new LanguageRegistry(config.get<LanguageDefinition[]>('languages') || []);
         }
+        return this.languageRegistry;
+    }
 
-        // Sort by lines descending so higher thresholds are checked first
-        return [...thresholds].sort((a, b) => b.lines - a.lines);
+    // Files outside every workspace folder have no ignore rules
+    private getIgnoreMatcher(uri: vscode.Uri): IgnoreMatcher | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return undefined;
+        }
+
+        let matcher = this.ignoreMatchers.get(folder.uri.fsPath);
+        if (!matcher) {
+            const config = vscode.workspace.getConfiguration('fileLineCounter', folder.uri);
+            matcher = new IgnoreMatcher(folder.uri.fsPath, {
+                ignoreListActive: config.get<boolean>('ignoreListActive') ?? true,
+                ignoreFiles: config.get<string[]>('ignoreFiles') || [],
+                whitelistActive: config.get<boolean>('whitelistActive') ?? false,
+                includeFiles: config.get<string[]>('includeFiles') || []
+            });
+            this.ignoreMatchers.set(folder.uri.fsPath, matcher);
+        }
+        return matcher;
+    }
+
+    private getThresholds(): ThresholdConfig[] {
+        return parseThresholds(vscode.workspace.getConfiguration('fileLineCounter').get('thresholds'));
     }
 
     async provideFileDecoration(uri: vscode.Uri): Promise<vscode.FileDecoration | undefined> {
         try {
             const stat = await vscode.workspace.fs.stat(uri);
 
-            // Only for files, not directories
+            if (stat.type === vscode.FileType.Directory) {
+                return this.provideDirectoryDecoration(uri);
+            }
+
             if (stat.type === vscode.FileType.File) {
-                const lineCount = await this.getLineCount(uri.fsPath);
+                // Respect the same ignore/include lists as the Line Count view
+                if (this.getIgnoreMatcher(uri)?.isExcluded(uri.fsPath, false, true)) {
+                    return undefined;
+                }
 
-                const decoration: vscode.FileDecoration = {
-                    badge: this.formatBadge(lineCount)
-                };
+                const counts = await this.getLineCounts(uri.fsPath);
 
-                // Apply color based on configured thresholds
-                const thresholds = this.getThresholds();
-                for (const threshold of thresholds) {
-                    if (lineCount >= threshold.lines) {
-                        decoration.color = new vscode.ThemeColor(threshold.color);
-                        break;
-                    }
+                // Binary and unreadable files get a distinct marker instead of a count
+                if (counts.kind === 'binary') {
+                    return { badge: 'B', tooltip: t('Binary file - not counted') };
+                }
+                if (counts.kind === 'unreadable') {
+                    return { badge: '–', tooltip: t('Could not be read - not counted') };
                 }
 
+                const lineCount = selectCount(counts, this.getCountMode());
+
+                const decoration: vscode.FileDecoration = {
+                    badge: this.formatBadge(lineCount),
+                    tooltip: counts.kind === 'large'
+                        ? t('{0} lines (large file - only newlines were counted)', counts.total)
+                        : t('{0} code · {1} comment · {2} blank', counts.code, counts.comment, counts.blank)
+                };
+
+                decoration.color = this.getThresholdColor(lineCount);
                 return decoration;
             }
         } catch (error) {
@@ -67,20 +116,39 @@ export class LineCountDecorationProvider implements vscode.FileDecorationProvide
         return undefined;
     }
 
-    private async getLineCount(filePath: string): Promise<number> {
-        // Check cache first
-        if (this.cache.has(filePath)) {
-            return this.cache.get(filePath)!;
+    // Folders show the recursive total of the files counted in the summary
+    private async provideDirectoryDecoration(uri: vscode.Uri): Promise<vscode.FileDecoration | undefined> {
+        if (!this.getDirectoryTotals || this.getIgnoreMatcher(uri)?.isIgnored(uri.fsPath, true)) {
+            return undefined;
         }
 
-        try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const lines = content.split('\n').length;
-            this.cache.set(filePath, lines);
-            return lines;
-        } catch (error) {
-            return 0;
+        const totals = await this.getDirectoryTotals(uri.fsPath);
+        if (!totals || totals.files === 0) {
+            return undefined;
         }
+
+        return {
+            badge: this.formatBadge(totals.lines),
+            tooltip: t('{0} lines in {1} files', totals.lines, totals.files),
+            color: this.getThresholdColor(totals.lines)
+        };
+    }
+
+    // Apply color based on configured thresholds
+    private getThresholdColor(lineCount: number): vscode.ThemeColor | undefined {
+        for (const threshold of this.getThresholds()) {
+            if (lineCount >= threshold.lines) {
+                return new vscode.ThemeColor(threshold.color);
+            }
+        }
+        return undefined;
+    }
+
+    private async getLineCounts(filePath: string): Promise<LineCounts> {
+        const language = this.getLanguageRegistry().detect(filePath);
+        const config = vscode.workspace.getConfiguration('fileLineCounter');
+        const megabytes = config.get<number>('largeFileSizeMB');
+        return this.index.getCounts(filePath, language, megabytes && megabytes > 0 ? megabytes * 1024 * 1024 : DEFAULT_LARGE_FILE_BYTES);
     }
 
     private formatBadge(count: number): string {
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { countLineBreakdown, LineCounts } from './lineCounter';
+import { LanguageDefinition } from './languageRegistry';
+
+interface IndexEntry {
+    mtime: number;
+    size: number;
+    // Language the counts were computed with; a different detection forces a recount
+    language?: string;
+    counts: LineCounts;
+}
+
+interface IndexFile {
+    version: number;
+    entries: Record<string, IndexEntry>;
+}
+
+const INDEX_VERSION = 2;
+const INDEX_FILE_NAME = 'line-count-index.json';
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Line counts keyed by absolute path and validated by mtime and size, persisted in the
+ * extension's workspace storage so that reloading the window does not reread every file.
+ */
+export class LineCountIndex {
+    private entries = new Map<string, IndexEntry>();
+    private saveTimer: NodeJS.Timeout | undefined;
+    private loaded: Promise<void> | undefined;
+
+    constructor(private readonly storageUri: vscode.Uri | undefined) { }
+
+    private get indexPath(): string | undefined {
+        return this.storageUri ? path.join(this.storageUri.fsPath, INDEX_FILE_NAME) : undefined;
+    }
+
+    load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.readFromDisk();
+        }
+        return this.loaded;
+    }
+
+    private async readFromDisk(): Promise<void> {
+        const indexPath = this.indexPath;
+        if (!indexPath) {
+            return;
+        }
+
+        try {
+            const data = JSON.parse(await fs.promises.readFile(indexPath, 'utf-8')) as IndexFile;
+            if (data.version === INDEX_VERSION) {
+                this.entries = new Map(Object.entries(data.entries));
+            }
+        } catch (error) {
+            // Missing or corrupt index - start empty
+        }
+    }
+
+    async getCounts(filePath: string, language?: LanguageDefinition, largeFileBytes?: number): Promise<LineCounts> {
+        await this.load();
+
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(filePath);
+        } catch (error) {
+            this.remove(filePath);
+            return { code: 0, comment: 0, blank: 0, total: 0, kind: 'unreadable' };
+        }
+
+        const entry = this.entries.get(filePath);
+        if (entry && entry.mtime === stat.mtimeMs && entry.size === stat.size && entry.language === language?.name) {
+            return entry.counts;
+        }
+
+        const counts = await countLineBreakdown(filePath, language?.comments, largeFileBytes);
+        this.entries.set(filePath, { mtime: stat.mtimeMs, size: stat.size, language: language?.name, counts });
+        this.scheduleSave();
+        return counts;
+    }
+
+    // Drops a file, or every file below a deleted directory
+    remove(filePath: string): void {
+        let changed = this.entries.delete(filePath);
+        const prefix = filePath + path.sep;
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.scheduleSave();
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (!this.indexPath) {
+            return;
+        }
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY_MS);
+    }
+
+    async save(): Promise<void> {
+        const indexPath = this.indexPath;
+        if (!indexPath) {
+            return;
+        }
+
+        const data: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+        try {
+            await fs.promises.mkdir(path.dirname(indexPath), { recursive: true });
+            await fs.promises.writeFile(indexPath, JSON.stringify(data), 'utf-8');
+        } catch (error) {
+            console.error('File Line Counter: failed to save line count index', error);
+        }
+    }
+
+    dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.save();
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { FileTreeProvider } from './FileTreeProvider';
+import { formatReport, ReportFormat, reportExtensions } from './reportFormatter';
+import { t } from './localization';
+
+export class ReportExportService {
+    constructor(private readonly fileTreeProvider: FileTreeProvider) { }
+
+    async exportReport(): Promise<void> {
+        const picked = await vscode.window.showQuickPick([
+            { label: 'CSV', description: t('One row per file, then summary tables'), format: 'csv' as ReportFormat },
+            { label: 'JSON', description: t('Machine-readable, for scripts and dashboards'), format: 'json' as ReportFormat },
+            { label: 'Markdown', description: t('For tickets and pull requests'), format: 'markdown' as ReportFormat },
+            { label: 'HTML', description: t('Standalone page'), format: 'html' as ReportFormat }
+        ], { placeHolder: t('Export line count report as...') });
+        if (!picked) {
+            return;
+        }
+
+        const extension = reportExtensions[picked.format];
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder.uri, `line-count-report.${extension}`) : undefined,
+            filters: { [picked.label]: [extension] }
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            const content = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: t('Building line count report...')
+            }, async () => formatReport(await this.fileTreeProvider.getReportData(), picked.format));
+
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+
+            const choice = await vscode.window.showInformationMessage(t('Line count report saved to {0}', vscode.workspace.asRelativePath(target)), t('Open'));
+            if (choice) {
+                await vscode.window.showTextDocument(target);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(t('Export failed: {0}', error instanceof Error ? error.message : t('Unknown error')));
+        }
+    }
+}
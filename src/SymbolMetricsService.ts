@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { mapWithConcurrency } from './lineCounter';
+import type { FileComplexity, SymbolMetric, SymbolMetricKind } from './symbolMetrics';
+
+type SymbolMetricsModule = typeof import('./symbolMetrics');
+
+// Document symbol providers may start language servers, so only a few files are asked at once
+const SYMBOL_CONCURRENCY = 4;
+
+// Symbols kept for the tree and the Long Functions ranking; namespaces and modules are walked through
+const symbolKinds = new Map<vscode.SymbolKind, SymbolMetricKind>([
+    [vscode.SymbolKind.Function, 'function'],
+    [vscode.SymbolKind.Method, 'method'],
+    [vscode.SymbolKind.Constructor, 'constructor'],
+    [vscode.SymbolKind.Class, 'class'],
+    [vscode.SymbolKind.Struct, 'class']
+]);
+
+export interface LongSymbol {
+    filePath: string;
+    // Qualified with its containers, e.g. 'Parser.parse'
+    name: string;
+    symbol: SymbolMetric;
+}
+
+/**
+ * Measures functions, methods and classes: TS/JS with the TypeScript compiler API, everything
+ * else with the language's document symbol provider. Results are cached by mtime and size.
+ */
+export class SymbolMetricsService {
+    private cache = new Map<string, { mtime: number; size: number; symbols: SymbolMetric[] }>();
+
+    async getSymbols(filePath: string): Promise<SymbolMetric[]> {
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(filePath);
+        } catch (error) {
+            this.cache.delete(filePath);
+            return [];
+        }
+
+        const cached = this.cache.get(filePath);
+        if (cached && cached.mtime === stat.mtimeMs && cached.size === stat.size) {
+            return cached.symbols;
+        }
+
+        const metrics = this.loadMetrics();
+        let symbols: SymbolMetric[];
+        try {
+            symbols = metrics.isTypeScriptLike(filePath)
+                ? metrics.measureTypeScriptSymbols(filePath, await fs.promises.readFile(filePath, 'utf-8'))
+                : await this.getProviderSymbols(vscode.Uri.file(filePath));
+        } catch (error) {
+            symbols = [];
+        }
+
+        this.cache.set(filePath, { mtime: stat.mtimeMs, size: stat.size, symbols });
+        return symbols;
+    }
+
+    // Functions, methods and constructors of at least `minLines` lines, longest first
+    getLongSymbols(filePaths: string[], minLines: number, limit: number): Promise<LongSymbol[]> {
+        return this.rankSymbols(filePaths, symbol => symbol.kind === 'class' ? 0 : symbol.lines, minLines, limit);
+    }
+
+    // TS/JS functions with a cognitive complexity of at least `minCognitive`, most complex first
+    getComplexSymbols(filePaths: string[], minCognitive: number, limit: number): Promise<LongSymbol[]> {
+        const { isTypeScriptLike } = this.loadMetrics();
+        return this.rankSymbols(filePaths.filter(isTypeScriptLike), symbol => symbol.complexity?.cognitive ?? 0, minCognitive, limit);
+    }
+
+    // Complexity totals of a TS/JS file; undefined for other languages
+    async getFileComplexity(filePath: string): Promise<FileComplexity | undefined> {
+        const { isTypeScriptLike, summarizeComplexity } = this.loadMetrics();
+        return isTypeScriptLike(filePath) ? summarizeComplexity(await this.getSymbols(filePath)) : undefined;
+    }
+
+    private async rankSymbols(filePaths: string[], score: (symbol: SymbolMetric) => number, minimum: number, limit: number): Promise<LongSymbol[]> {
+        const { flattenSymbols } = this.loadMetrics();
+        const perFile = await mapWithConcurrency(filePaths, SYMBOL_CONCURRENCY, async filePath =>
+            flattenSymbols(await this.getSymbols(filePath))
+                .filter(symbol => score(symbol) >= minimum)
+                .map(symbol => ({ filePath, name: symbol.name, symbol }))
+        );
+
+        return perFile.flat()
+            .sort((a, b) => score(b.symbol) - score(a.symbol))
+            .slice(0, limit);
+    }
+
+    // The bundled TypeScript compiler is only loaded once symbols are first needed, not on activation
+    private loadMetrics(): SymbolMetricsModule {
+        return require('./symbolMetrics') as SymbolMetricsModule;
+    }
+
+    private async getProviderSymbols(uri: vscode.Uri): Promise<SymbolMetric[]> {
+        const result = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            uri
+        );
+
+        const convert = (symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): SymbolMetric[] => {
+            const converted: SymbolMetric[] = [];
+            for (const symbol of symbols) {
+                // Older providers return flat SymbolInformation without children
+                const range = 'range' in symbol ? symbol.range : symbol.location.range;
+                const children = 'children' in symbol ? convert(symbol.children) : [];
+                const kind = symbolKinds.get(symbol.kind);
+                if (kind) {
+                    converted.push({
+                        name: symbol.name,
+                        kind,
+                        startLine: range.start.line,
+                        endLine: range.end.line,
+                        lines: range.end.line - range.start.line + 1,
+                        children
+                    });
+                } else {
+                    converted.push(...children);
+                }
+            }
+            return converted;
+        };
+
+        return convert(result || []);
+    }
+}
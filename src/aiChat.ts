@@ -0,0 +1,285 @@
+import { getAiProvider } from './aiProviders';
+
+// Streaming chat requests with timeouts and retries; kept free of vscode so it can be tested
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatRequest {
+    provider: string;
+    apiKey?: string;
+    model: string;
+    // Overrides the provider's endpoint; required for Custom
+    baseUrl?: string;
+    maxOutputTokens: number;
+    messages: ChatMessage[];
+    signal?: AbortSignal;
+    // How long to wait for the response to start, and then for each further piece of it
+    timeoutMs?: number;
+    // Further attempts after a 429 or 5xx response, waiting retryDelayMs, then twice that, and so on
+    maxRetries?: number;
+    retryDelayMs?: number;
+}
+
+export type AiErrorKind = 'auth' | 'notFound' | 'badRequest' | 'rateLimit' | 'server' | 'timeout' | 'network' | 'stream';
+
+const errorDescriptions: Record<AiErrorKind, string> = {
+    auth: 'the API key was rejected',
+    notFound: 'the model or endpoint was not found',
+    badRequest: 'the request was rejected',
+    rateLimit: 'rate limit exceeded',
+    server: 'server error',
+    timeout: 'no response in time',
+    network: 'could not connect',
+    stream: 'the answer stream failed'
+};
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+// A longer Retry-After is capped rather than waited for in full
+const MAX_RETRY_AFTER_MS = 60000;
+// Error bodies are cut so a whole HTML error page does not end up in a notification
+const MAX_ERROR_BODY = 500;
+
+export class AiRequestError extends Error {
+    constructor(
+        readonly kind: AiErrorKind,
+        message: string,
+        readonly status?: number,
+        // From a Retry-After header
+        readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'AiRequestError';
+    }
+
+    // Rate limits and server errors are usually gone after a short wait
+    get retryable(): boolean {
+        return this.kind === 'rateLimit' || this.kind === 'server';
+    }
+}
+
+function errorKind(status: number): AiErrorKind {
+    if (status === 401 || status === 403) {
+        return 'auth';
+    }
+    if (status === 404) {
+        return 'notFound';
+    }
+    if (status === 429) {
+        return 'rateLimit';
+    }
+    return status >= 500 ? 'server' : 'badRequest';
+}
+
+// Only the delay-seconds form; HTTP dates fall back to the normal backoff
+function parseRetryAfter(header: string | null): number | undefined {
+    const seconds = header ? Number(header) : NaN;
+    return Number.isFinite(seconds) && seconds >= 0 ? Math.min(seconds * 1000, MAX_RETRY_AFTER_MS) : undefined;
+}
+
+function abortError(): Error {
+    const error = new Error('The request was cancelled');
+    error.name = 'AbortError';
+    return error;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Removes API keys from text that may be shown or logged: the given secrets wherever they
+ * appear, plus any `key=` query parameter and bearer token, whoever they belong to.
+ */
+export function redactSecrets(text: string, secrets: (string | undefined)[]): string {
+    let redacted = text;
+    for (const secret of secrets) {
+        if (secret && secret.length >= 4) {
+            redacted = redacted.split(secret).join('***');
+        }
+    }
+    return redacted
+        .replace(/([?&]key=)[^&\s"']+/gi, '$1***')
+        .replace(/(Bearer\s+)[A-Za-z0-9._~+/-]+=*/g, '$1***');
+}
+
+/**
+ * Splits a server-sent event stream into the data of each event. Chunks may end anywhere,
+ * including inside a line; multi-line data is joined with newlines as the spec requires.
+ */
+export function createSseParser(onData: (data: string) => void): (chunk: string) => void {
+    let buffer = '';
+    let data: string[] = [];
+
+    return (chunk: string) => {
+        buffer += chunk;
+        let newline: number;
+        while ((newline = buffer.search(/\r?\n/)) !== -1) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + (buffer[newline] === '\r' ? 2 : 1));
+
+            if (line === '') {
+                if (data.length > 0) {
+                    onData(data.join('\n'));
+                    data = [];
+                }
+            } else if (line.startsWith('data:')) {
+                data.push(line.slice(line[5] === ' ' ? 6 : 5));
+            }
+            // Comments, ids, event names and retry hints are not needed
+        }
+    };
+}
+
+// Newline-delimited JSON, as streamed by Ollama: every non-empty line is one event
+export function createNdjsonParser(onData: (data: string) => void): (chunk: string) => void {
+    let buffer = '';
+
+    return (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop()!;
+        for (const line of lines) {
+            if (line.trim() !== '') {
+                onData(line);
+            }
+        }
+    };
+}
+
+/**
+ * Sends the conversation and calls `onText` with each piece of the answer as it arrives.
+ * Resolves with the whole answer. Failures reject with an AiRequestError whose message has
+ * the API key removed, and cancelling through `signal` rejects with an AbortError.
+ */
+export async function streamChat(request: ChatRequest, onText: (text: string) => void): Promise<string> {
+    const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const retryDelayMs = request.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    let streamed = false;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await sendChat(request, text => {
+                streamed = true;
+                onText(text);
+            });
+        } catch (error) {
+            if (error instanceof Error && error.name !== 'AbortError') {
+                // Network errors may quote the request URL, and providers may echo the key back
+                error.message = redactSecrets(error.message, [request.apiKey]);
+            }
+            // Once text has been shown, a retry would repeat it
+            if (!(error instanceof AiRequestError) || !error.retryable || attempt >= maxRetries || streamed) {
+                throw error;
+            }
+            await delay(error.retryAfterMs ?? retryDelayMs * 2 ** attempt, request.signal);
+        }
+    }
+}
+
+async function sendChat(request: ChatRequest, onText: (text: string) => void): Promise<string> {
+    const provider = getAiProvider(request.provider);
+    const { url, init } = provider.buildRequest(request);
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    // One controller for both cancelling and timing out; the timer restarts whenever data arrives
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    request.signal?.addEventListener('abort', cancel);
+    if (request.signal?.aborted) {
+        controller.abort();
+    }
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    const restartTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+    };
+
+    try {
+        restartTimer();
+        const response = await fetch(url, { ...init, signal: controller.signal });
+
+        if (!response.ok) {
+            const kind = errorKind(response.status);
+            const body = (await response.text()).slice(0, MAX_ERROR_BODY);
+            throw new AiRequestError(
+                kind,
+                `${provider.name} request failed (${response.status}, ${errorDescriptions[kind]}). Model: ${request.model} - ${body}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+        if (!response.body) {
+            throw new AiRequestError('stream', `${provider.name} returned no response body`);
+        }
+
+        let answer = '';
+        const onData = (data: string) => {
+            let text: string | undefined;
+            try {
+                text = provider.parseEvent(data);
+            } catch (error) {
+                throw new AiRequestError('stream', error instanceof Error ? error.message : String(error));
+            }
+            if (text) {
+                answer += text;
+                onText(text);
+            }
+        };
+        const parse = provider.streamFormat === 'ndjson' ? createNdjsonParser(onData) : createSseParser(onData);
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            restartTimer();
+            parse(decoder.decode(value, { stream: true }));
+        }
+        // A last event without the closing newline still counts
+        parse(decoder.decode() + '\n\n');
+
+        return answer;
+    } catch (error) {
+        if (error instanceof AiRequestError) {
+            throw error;
+        }
+        if (timedOut) {
+            throw new AiRequestError('timeout', `${provider.name} did not respond within ${Math.round(timeoutMs / 1000)} seconds`);
+        }
+        if (request.signal?.aborted) {
+            throw abortError();
+        }
+        // fetch reports connection failures as "fetch failed" with the reason in `cause`
+        const cause = error instanceof Error && error.cause instanceof Error ? error.cause : undefined;
+        const reason = (cause as NodeJS.ErrnoException | undefined)?.code || cause?.message || (error instanceof Error ? error.message : String(error));
+        throw new AiRequestError('network', `Could not connect to ${provider.name} at ${new URL(url).origin} (${reason})`);
+    } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', cancel);
+    }
+}
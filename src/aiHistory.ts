@@ -0,0 +1,88 @@
+import type { ChatMessage } from './aiChat';
+import type { LineCounts } from './lineCounter';
+import type { CodeStats, LanguageStats } from './workspaceStats';
+
+// Past AI analyses and how the codebase changed between two of them; kept free of vscode so it can be tested
+
+// The workspace statistics an analysis was based on, small enough to keep many of them
+export interface StatsSnapshot {
+    totalFiles: number;
+    totalLines: number;
+    averageLines: number;
+    breakdown: LineCounts;
+    languages: LanguageStats[];
+    // Workspace-relative paths
+    largeFiles: { path: string; lines: number }[];
+    duplicatedLines: number;
+}
+
+export interface AiAnalysisRecord {
+    id: string;
+    createdAt: number;
+    provider: string;
+    model: string;
+    stats: StatsSnapshot;
+    // The analysis prompt first, then answers and follow-up questions
+    messages: ChatMessage[];
+}
+
+export type StatsMetric = 'totalFiles' | 'totalLines' | 'averageLines' | 'codeLines' | 'commentLines' | 'largeFiles' | 'duplicatedLines';
+
+export interface Change {
+    before: number;
+    after: number;
+}
+
+export interface StatsComparison {
+    metrics: ({ metric: StatsMetric } & Change)[];
+    // Lines per language, only where they changed, biggest change first
+    languages: ({ language: string } & Change)[];
+    // Large files that appeared, disappeared or changed size; 0 means not a large file at that time
+    largeFiles: ({ path: string } & Change)[];
+}
+
+export function snapshotStats(stats: CodeStats, duplicatedLines: number, relativePath: (filePath: string) => string): StatsSnapshot {
+    return {
+        totalFiles: stats.totalFiles,
+        totalLines: stats.totalLines,
+        averageLines: stats.averageLines,
+        breakdown: stats.breakdown,
+        languages: stats.languages,
+        largeFiles: stats.largeFiles.map(f => ({ path: relativePath(f.path), lines: f.lineCount })),
+        duplicatedLines
+    };
+}
+
+function changed<T extends Change>(changes: T[]): T[] {
+    return changes
+        .filter(c => c.before !== c.after)
+        .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+}
+
+export function compareStats(before: StatsSnapshot, after: StatsSnapshot): StatsComparison {
+    const metric = (name: StatsMetric, value: (s: StatsSnapshot) => number) => ({ metric: name, before: value(before), after: value(after) });
+
+    const languageLines = (s: StatsSnapshot) => new Map(s.languages.map(l => [l.language, l.lines]));
+    const languagesBefore = languageLines(before);
+    const languagesAfter = languageLines(after);
+
+    const fileLines = (s: StatsSnapshot) => new Map(s.largeFiles.map(f => [f.path, f.lines]));
+    const filesBefore = fileLines(before);
+    const filesAfter = fileLines(after);
+
+    return {
+        metrics: [
+            metric('totalFiles', s => s.totalFiles),
+            metric('totalLines', s => s.totalLines),
+            metric('averageLines', s => s.averageLines),
+            metric('codeLines', s => s.breakdown.code),
+            metric('commentLines', s => s.breakdown.comment),
+            metric('largeFiles', s => s.largeFiles.length),
+            metric('duplicatedLines', s => s.duplicatedLines)
+        ],
+        languages: changed([...new Set([...languagesBefore.keys(), ...languagesAfter.keys()])]
+            .map(language => ({ language, before: languagesBefore.get(language) || 0, after: languagesAfter.get(language) || 0 }))),
+        largeFiles: changed([...new Set([...filesBefore.keys(), ...filesAfter.keys()])]
+            .map(filePath => ({ path: filePath, before: filesBefore.get(filePath) || 0, after: filesAfter.get(filePath) || 0 })))
+    };
+}
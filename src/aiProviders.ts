@@ -0,0 +1,198 @@
+import type { ChatMessage } from './aiChat';
+
+// One implementation per AI backend: how to ask for a streamed answer and how to read it back
+
+export interface ProviderRequest {
+    apiKey?: string;
+    model: string;
+    // Overrides the provider's endpoint; required for Custom
+    baseUrl?: string;
+    maxOutputTokens: number;
+    messages: ChatMessage[];
+}
+
+export interface AiProvider {
+    readonly name: string;
+    readonly defaultModel: string;
+    // Local servers usually run without a key
+    readonly requiresApiKey: boolean;
+    // 'sse' for server-sent events, 'ndjson' for one JSON object per line
+    readonly streamFormat: 'sse' | 'ndjson';
+    buildRequest(request: ProviderRequest): { url: string; init: RequestInit };
+    // Text added by one streamed event, or undefined when the event carries none
+    parseEvent(data: string): string | undefined;
+}
+
+function joinUrl(base: string, path: string): string {
+    return base.replace(/\/+$/, '') + path;
+}
+
+// Errors reported inside a stream, in the shapes the providers use
+function streamError(provider: string, event: { error?: unknown }): Error | undefined {
+    if (!event.error) {
+        return undefined;
+    }
+    const error = event.error as string | { message?: string };
+    const message = typeof error === 'string' ? error : error.message || JSON.stringify(error);
+    return new Error(`${provider} stream failed: ${message}`);
+}
+
+class GeminiProvider implements AiProvider {
+    readonly name = 'Gemini';
+    readonly defaultModel = 'gemini-2.0-flash';
+    readonly requiresApiKey = true;
+    readonly streamFormat = 'sse';
+
+    buildRequest({ apiKey, model, baseUrl, maxOutputTokens, messages }: ProviderRequest) {
+        return {
+            // The key goes in a header rather than the URL, which ends up in error messages and proxy logs
+            url: joinUrl(baseUrl || 'https://generativelanguage.googleapis.com/v1beta', `/models/${model}:streamGenerateContent?alt=sse`),
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey || '' },
+                body: JSON.stringify({
+                    contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+                    generationConfig: { maxOutputTokens }
+                })
+            }
+        };
+    }
+
+    parseEvent(data: string): string | undefined {
+        const event = JSON.parse(data);
+        const error = streamError(this.name, event);
+        if (error) {
+            throw error;
+        }
+        const parts: { text?: string }[] = event.candidates?.[0]?.content?.parts || [];
+        return parts.map(p => p.text || '').join('') || undefined;
+    }
+}
+
+class AnthropicProvider implements AiProvider {
+    readonly name = 'Anthropic';
+    readonly defaultModel = 'claude-3-5-sonnet-20240620';
+    readonly requiresApiKey = true;
+    readonly streamFormat = 'sse';
+
+    buildRequest({ apiKey, model, baseUrl, maxOutputTokens, messages }: ProviderRequest) {
+        return {
+            url: joinUrl(baseUrl || 'https://api.anthropic.com/v1', '/messages'),
+            init: {
+                method: 'POST',
+                headers: {
+                    'x-api-key': apiKey || '',
+                    'anthropic-version': '2023-06-01',
+                    'content-type': 'application/json'
+                },
+                body: JSON.stringify({ model, max_tokens: maxOutputTokens, messages, stream: true })
+            }
+        };
+    }
+
+    parseEvent(data: string): string | undefined {
+        const event = JSON.parse(data);
+        const error = streamError(this.name, event);
+        if (error) {
+            throw error;
+        }
+        return event.type === 'content_block_delta' ? event.delta?.text : undefined;
+    }
+}
+
+// OpenAI's chat completions API, which DeepSeek, OpenRouter and llama.cpp's server also speak
+class OpenAiCompatibleProvider implements AiProvider {
+    readonly streamFormat = 'sse';
+
+    constructor(
+        readonly name: string,
+        readonly defaultModel: string,
+        private readonly defaultBaseUrl: string | undefined,
+        readonly requiresApiKey: boolean
+    ) { }
+
+    buildRequest({ apiKey, model, baseUrl, maxOutputTokens, messages }: ProviderRequest) {
+        const base = baseUrl && baseUrl.trim() !== '' ? baseUrl.trim() : this.defaultBaseUrl;
+        if (!base) {
+            throw new Error(`${this.name} URL is required for the ${this.name} provider`);
+        }
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            // Optional headers for OpenRouter and others
+            'HTTP-Referer': 'https://github.com/eitan-baron/file-line-counter',
+            'X-Title': 'File Line Counter VS Code Extension'
+        };
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+
+        return {
+            // If user entered full path including chat/completions, trust it
+            url: base.includes('/chat/completions') ? base : joinUrl(base, '/chat/completions'),
+            init: {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model, messages, max_tokens: maxOutputTokens, stream: true })
+            }
+        };
+    }
+
+    parseEvent(data: string): string | undefined {
+        if (data === '[DONE]') {
+            return undefined;
+        }
+        const event = JSON.parse(data);
+        const error = streamError(this.name, event);
+        if (error) {
+            throw error;
+        }
+        return event.choices?.[0]?.delta?.content || undefined;
+    }
+}
+
+// A local Ollama server, so code never leaves the machine
+class OllamaProvider implements AiProvider {
+    readonly name = 'Ollama';
+    readonly defaultModel = 'llama3.1';
+    readonly requiresApiKey = false;
+    readonly streamFormat = 'ndjson';
+
+    buildRequest({ model, baseUrl, maxOutputTokens, messages }: ProviderRequest) {
+        return {
+            url: joinUrl(baseUrl || 'http://localhost:11434', '/api/chat'),
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model, messages, stream: true, options: { num_predict: maxOutputTokens } })
+            }
+        };
+    }
+
+    parseEvent(data: string): string | undefined {
+        const event = JSON.parse(data);
+        const error = streamError(this.name, event);
+        if (error) {
+            throw error;
+        }
+        return event.message?.content || undefined;
+    }
+}
+
+export const aiProviders: Record<string, AiProvider> = {
+    'Gemini': new GeminiProvider(),
+    'OpenAI': new OpenAiCompatibleProvider('OpenAI', 'gpt-4o', 'https://api.openai.com/v1', true),
+    'Anthropic': new AnthropicProvider(),
+    'DeepSeek': new OpenAiCompatibleProvider('DeepSeek', 'deepseek-chat', 'https://api.deepseek.com', true),
+    'Ollama': new OllamaProvider(),
+    // Any OpenAI-compatible endpoint, e.g. llama.cpp's server; the key is optional
+    'Custom': new OpenAiCompatibleProvider('Custom', 'gpt-3.5-turbo', undefined, false)
+};
+
+export function getAiProvider(name: string): AiProvider {
+    const provider = aiProviders[name];
+    if (!provider) {
+        throw new Error(`Unknown AI provider "${name}"`);
+    }
+    return provider;
+}
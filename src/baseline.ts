@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { LineCounts } from './lineCounter';
+
+// Per-file counts saved at one point in time; paths are absolute like the line count index
+export interface BaselineSnapshot {
+    name: string;
+    createdAt: number;
+    files: Record<string, LineCounts>;
+}
+
+/**
+ * Lines added and removed since the baseline. Snapshots keep counts, not contents, so a file's
+ * change is only known as a net difference and a file only ever has one of the two; a directory
+ * adds up the files that grew and the files that shrank.
+ */
+export interface LineDelta {
+    added: number;
+    removed: number;
+}
+
+export interface BaselineDeltas {
+    // Net change per file, including files that were created or deleted since the baseline
+    files: Map<string, number>;
+    // Recursive added/removed totals per directory, up to and including each root
+    directories: Map<string, LineDelta>;
+}
+
+/**
+ * Compares current line counts against a baseline. Files are attributed to the root that
+ * contains them; files outside every root are ignored.
+ */
+export function computeDeltas(current: Map<string, number>, baseline: Map<string, number>, roots: string[]): BaselineDeltas {
+    const files = new Map<string, number>();
+    const directories = new Map<string, LineDelta>();
+
+    for (const filePath of new Set([...current.keys(), ...baseline.keys()])) {
+        const root = roots.find(r => filePath.startsWith(r + path.sep));
+        const delta = (current.get(filePath) || 0) - (baseline.get(filePath) || 0);
+        if (!root || delta === 0) {
+            continue;
+        }
+        files.set(filePath, delta);
+
+        let dir = path.dirname(filePath);
+        while (true) {
+            const totals = directories.get(dir) || { added: 0, removed: 0 };
+            if (delta > 0) {
+                totals.added += delta;
+            } else {
+                totals.removed -= delta;
+            }
+            directories.set(dir, totals);
+
+            if (dir === root || path.dirname(dir) === dir) {
+                break;
+            }
+            dir = path.dirname(dir);
+        }
+    }
+
+    return { files, directories };
+}
+
+// A file's net change as a delta, so files are formatted like directories
+export function netDelta(delta: number | undefined): LineDelta | undefined {
+    return delta === undefined ? undefined : { added: Math.max(delta, 0), removed: Math.max(-delta, 0) };
+}
+
+// '+120 / −40', or just the side that changed; empty when nothing changed
+export function formatDelta(delta: LineDelta | undefined): string {
+    if (!delta) {
+        return '';
+    }
+    const parts: string[] = [];
+    if (delta.added > 0) {
+        parts.push(`+${delta.added.toLocaleString()}`);
+    }
+    if (delta.removed > 0) {
+        parts.push(`−${delta.removed.toLocaleString()}`);
+    }
+    return parts.join(' / ');
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePattern, PatternRule } from './ignoreMatcher';
+
+// Policy file read from the root of each workspace folder
+export const BUDGET_POLICY_FILE = '.linecounterrc.json';
+
+export interface BudgetRule {
+    // Glob(s) in .gitignore syntax, relative to the folder; patterns without a slash match the file name
+    files: string | string[];
+    warning?: number;
+    error?: number;
+    // Matching files are never reported, e.g. generated code
+    exempt?: boolean;
+}
+
+export interface BudgetPolicyFile {
+    budgets: BudgetRule[];
+}
+
+export type BudgetSeverity = 'warning' | 'error';
+
+export interface BudgetViolation {
+    filePath: string;
+    lines: number;
+    severity: BudgetSeverity;
+    limit: number;
+    policyPath: string;
+}
+
+interface CompiledRule {
+    rule: BudgetRule;
+    patterns: PatternRule[];
+}
+
+/**
+ * Per-glob line limits for one workspace folder. When several entries match a file,
+ * the last one wins, so specific entries go below general ones.
+ */
+export class BudgetPolicy {
+    private readonly rules: CompiledRule[];
+
+    constructor(
+        public readonly root: string,
+        budgets: BudgetRule[],
+        // Set when the policy file exists but could not be read
+        public readonly error?: string
+    ) {
+        this.rules = budgets.map(rule => ({
+            rule,
+            patterns: (Array.isArray(rule.files) ? rule.files : [rule.files])
+                .map(glob => parsePattern(glob, root))
+                .filter((pattern): pattern is PatternRule => pattern !== undefined)
+        }));
+    }
+
+    get policyPath(): string {
+        return path.join(this.root, BUDGET_POLICY_FILE);
+    }
+
+    get isEmpty(): boolean {
+        return this.rules.length === 0;
+    }
+
+    static load(root: string): BudgetPolicy {
+        const policyPath = path.join(root, BUDGET_POLICY_FILE);
+        if (!fs.existsSync(policyPath)) {
+            return new BudgetPolicy(root, []);
+        }
+
+        try {
+            const data = JSON.parse(fs.readFileSync(policyPath, 'utf-8')) as BudgetPolicyFile;
+            if (!Array.isArray(data.budgets)) {
+                return new BudgetPolicy(root, [], `"budgets" must be an array`);
+            }
+            return new BudgetPolicy(root, data.budgets.filter(rule => rule && (typeof rule.files === 'string' || Array.isArray(rule.files))));
+        } catch (error) {
+            return new BudgetPolicy(root, [], error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    contains(filePath: string): boolean {
+        return filePath.startsWith(this.root + path.sep);
+    }
+
+    // Last matching entry; a pattern also matches files inside a matching directory
+    match(filePath: string): BudgetRule | undefined {
+        const relativePath = path.relative(this.root, filePath).replace(/\\/g, '/');
+        const segments = relativePath.split('/');
+        let matched: BudgetRule | undefined;
+
+        for (const { rule, patterns } of this.rules) {
+            const matches = patterns.some(pattern => segments.some((_, i) => {
+                const isFile = i === segments.length - 1;
+                if (pattern.directoryOnly && isFile) {
+                    return false;
+                }
+                const subject = pattern.matchBasename ? segments[i] : segments.slice(0, i + 1).join('/');
+                return pattern.regex.test(subject);
+            }));
+            if (matches) {
+                matched = rule;
+            }
+        }
+
+        return matched;
+    }
+
+    check(filePath: string, lines: number): BudgetViolation | undefined {
+        const rule = this.match(filePath);
+        if (!rule || rule.exempt) {
+            return undefined;
+        }
+
+        if (rule.error !== undefined && lines > rule.error) {
+            return { filePath, lines, severity: 'error', limit: rule.error, policyPath: this.policyPath };
+        }
+        if (rule.warning !== undefined && lines > rule.warning) {
+            return { filePath, lines, severity: 'warning', limit: rule.warning, policyPath: this.policyPath };
+        }
+        return undefined;
+    }
+
+    // Large Files use the matching budget; files no entry matches fall back to the global threshold
+    isLarge(filePath: string, lines: number, fallbackThreshold: number): boolean {
+        const rule = this.match(filePath);
+        if (!rule) {
+            return lines >= fallbackThreshold;
+        }
+        if (rule.exempt) {
+            return false;
+        }
+        const limit = rule.warning ?? rule.error;
+        return limit !== undefined && lines > limit;
+    }
+}
@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { countLineBreakdown, CountMode, DEFAULT_LARGE_FILE_BYTES, mapWithConcurrency } from './lineCounter';
+import { LanguageDefinition, LanguageRegistry } from './languageRegistry';
+import { IgnoreMatcher } from './ignoreMatcher';
+import { ContributedSettings, readContributedSettings, readFolderSettings } from './settingsFile';
+import { buildStats, CodeStats, scanCodeFiles, toFileInfo } from './workspaceStats';
+import { BudgetPolicy } from './budgetPolicy';
+
+// Headless counterpart of the Line Count view for CI: same settings, ignore files and stats
+
+const COUNT_CONCURRENCY = 8;
+
+const USAGE = `Usage: file-line-counter [folder...] [--json] [--max-lines <n>]
+
+Counts lines the same way as the File Line Counter extension, using each folder's
+ignore files and .linecounterrc.json budgets. As in a VS Code workspace, settings
+come from .vscode/settings.json: that of the folder when there is one folder, that
+of the current directory otherwise, with each folder's own file overriding only
+the ignore and include settings. Exits with code 1 when files exceed
+fileLineCounter.maxFileLines (or --max-lines) or their error budget, and 2 on
+usage errors or an unreadable budget file.
+
+Options:
+  --json             Print the summary as JSON
+  --max-lines <n>    Override fileLineCounter.maxFileLines (0 disables the check)
+  -h, --help         Show this help`;
+
+export interface CliOptions {
+    folders: string[];
+    json: boolean;
+    maxLines?: number;
+    help: boolean;
+}
+
+export interface FolderReport {
+    name: string;
+    path: string;
+    countMode: CountMode;
+    largeFileThreshold: number;
+    maxFileLines: number;
+    stats: CodeStats;
+}
+
+export function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = { folders: [], json: false, help: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--json') {
+            options.json = true;
+        } else if (arg === '-h' || arg === '--help') {
+            options.help = true;
+        } else if (arg === '--max-lines') {
+            const value = Number(args[++i]);
+            if (!Number.isInteger(value) || value < 0) {
+                throw new Error('--max-lines expects a non-negative integer');
+            }
+            options.maxLines = value;
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option: ${arg}`);
+        } else {
+            options.folders.push(path.resolve(arg));
+        }
+    }
+
+    if (options.folders.length === 0) {
+        options.folders.push(process.cwd());
+    }
+    return options;
+}
+
+export async function analyzeFolder(folderPath: string, workspacePath: string, settings: ContributedSettings, maxLinesOverride?: number): Promise<FolderReport> {
+    if (!fs.existsSync(folderPath) || !fs.statSync(folderPath).isDirectory()) {
+        throw new Error('not a directory');
+    }
+
+    const get = readFolderSettings(folderPath, workspacePath, settings);
+    const countMode = get<CountMode>('countMode') || 'total';
+    const megabytes = get<number>('largeFileSizeMB');
+    const largeFileBytes = megabytes && megabytes > 0 ? megabytes * 1024 * 1024 : DEFAULT_LARGE_FILE_BYTES;
+    const largeFileThreshold = get<number>('summaryThreshold') || 1000;
+    const maxFileLines = maxLinesOverride ?? (get<number>('maxFileLines') || 0);
+
+    const registry = new LanguageRegistry(get<LanguageDefinition[]>('languages') || []);
+    const matcher = new IgnoreMatcher(folderPath, {
+        ignoreListActive: get<boolean>('ignoreListActive') ?? true,
+        ignoreFiles: get<string[]>('ignoreFiles') || [],
+        whitelistActive: get<boolean>('whitelistActive') ?? false,
+        includeFiles: get<string[]>('includeFiles') || []
+    });
+
+    const policy = BudgetPolicy.load(folderPath);
+    if (policy.error) {
+        throw new Error(`invalid ${path.basename(policy.policyPath)}: ${policy.error}`);
+    }
+
+    const codeFiles = await scanCodeFiles(folderPath, matcher, registry);
+    const files = await mapWithConcurrency(codeFiles, COUNT_CONCURRENCY, async file => {
+        const counts = await countLineBreakdown(file.path, file.language.comments, largeFileBytes);
+        return toFileInfo(file.path, file.language, counts, countMode);
+    });
+
+    return {
+        name: path.basename(folderPath),
+        path: folderPath,
+        countMode,
+        largeFileThreshold,
+        maxFileLines,
+        stats: buildStats(files, largeFileThreshold, maxFileLines, [policy])
+    };
+}
+
+function relative(report: FolderReport, filePath: string): string {
+    return path.relative(report.path, filePath).replace(/\\/g, '/');
+}
+
+// Warnings are reported but only errors fail the run, as in the Problems panel
+function failures(report: FolderReport): number {
+    return report.stats.overLimit.length + report.stats.budgetViolations.filter(v => v.severity === 'error').length;
+}
+
+export function formatJson(reports: FolderReport[]): string {
+    return JSON.stringify({
+        passed: reports.every(r => failures(r) === 0),
+        folders: reports.map(r => ({
+            name: r.name,
+            path: r.path,
+            countMode: r.countMode,
+            totalFiles: r.stats.totalFiles,
+            totalLines: r.stats.totalLines,
+            averageLines: r.stats.averageLines,
+            breakdown: { code: r.stats.breakdown.code, comment: r.stats.breakdown.comment, blank: r.stats.breakdown.blank },
+            languages: r.stats.languages,
+            largeFileThreshold: r.largeFileThreshold,
+            largeFiles: r.stats.largeFiles.map(f => ({ path: relative(r, f.path), lines: f.lineCount })),
+            maxFileLines: r.maxFileLines,
+            overLimit: r.stats.overLimit.map(f => ({ path: relative(r, f.path), lines: f.lineCount })),
+            budgetViolations: r.stats.budgetViolations.map(v => ({ path: relative(r, v.filePath), lines: v.lines, severity: v.severity, limit: v.limit }))
+        }))
+    }, null, 2);
+}
+
+function table(rows: (string | number)[][], indent = '  '): string[] {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => String(row[column]).length)));
+    return rows.map(row => indent + row.map((cell, column) =>
+        typeof cell === 'number' ? String(cell).padStart(widths[column]) : cell.padEnd(widths[column])
+    ).join('  ').trimEnd());
+}
+
+export function formatTable(reports: FolderReport[]): string {
+    const lines: string[] = [];
+
+    for (const report of reports) {
+        const { stats } = report;
+        lines.push(`${report.name} (${report.path})`);
+        lines.push(...table([
+            ['Total Files', stats.totalFiles],
+            [report.countMode === 'code' ? 'Total Code Lines' : 'Total Lines', stats.totalLines],
+            ['Average Lines/File', stats.averageLines],
+            ['Code', stats.breakdown.code],
+            ['Comments', stats.breakdown.comment],
+            ['Blank', stats.breakdown.blank]
+        ]));
+
+        if (stats.languages.length > 0) {
+            lines.push('', ...table([['Language', 'Files', 'Lines'], ...stats.languages.map(l => [l.language, l.files, l.lines])]));
+        }
+
+        if (stats.largeFiles.length > 0) {
+            lines.push('', `  Large Files (>=${report.largeFileThreshold} lines)`);
+            lines.push(...table(stats.largeFiles.map(f => [relative(report, f.path), f.lineCount]), '    '));
+        }
+
+        if (stats.overLimit.length > 0) {
+            lines.push('', `  Over the limit of ${report.maxFileLines} lines`);
+            lines.push(...table(stats.overLimit.map(f => [relative(report, f.path), f.lineCount]), '    '));
+        }
+
+        if (stats.budgetViolations.length > 0) {
+            lines.push('', '  Over budget');
+            lines.push(...table(stats.budgetViolations.map(v => [v.severity, relative(report, v.filePath), v.lines, `> ${v.limit}`]), '    '));
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+export async function main(args: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    // The bundled CLI sits in dist/, next to the extension's package.json one level up
+    const settings = readContributedSettings(path.join(__dirname, '..', 'package.json'));
+    // A single folder is its own workspace; several are analysed like a multi-root workspace
+    const workspacePath = options.folders.length === 1 ? options.folders[0] : process.cwd();
+    const reports: FolderReport[] = [];
+    for (const folder of options.folders) {
+        try {
+            reports.push(await analyzeFolder(folder, workspacePath, settings, options.maxLines));
+        } catch (error) {
+            console.error(`Could not analyse ${folder}: ${error instanceof Error ? error.message : error}`);
+            return 2;
+        }
+    }
+
+    console.log(options.json ? formatJson(reports) : formatTable(reports));
+
+    const failed = reports.reduce((sum, r) => sum + failures(r), 0);
+    if (failed > 0) {
+        console.error(`${failed} file(s) exceed the configured line limits`);
+        return 1;
+    }
+    return 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,283 @@
+import { CommentSyntax } from './lineCounter';
+
+// Token-based copy-paste detection; kept free of vscode so it can be unit tested
+
+export interface Token {
+    value: string;
+    // Zero-based line the token starts on
+    line: number;
+}
+
+export interface CodeLocation {
+    filePath: string;
+    // Zero-based, inclusive
+    startLine: number;
+    endLine: number;
+}
+
+export interface Clone {
+    // Where the code was seen first (in file order)
+    original: CodeLocation;
+    duplicate: CodeLocation;
+    tokens: number;
+    lines: number;
+}
+
+export interface CloneOptions {
+    minTokens: number;
+    minLines: number;
+}
+
+// A file reduced to what the detector compares: a hash of each token and the line it starts on
+export interface TokenFingerprint {
+    hashes: Uint32Array;
+    lines: Uint32Array;
+}
+
+export interface CloneSummary {
+    clones: number;
+    // Lines of the duplicate sides, i.e. what could be removed by sharing the code
+    duplicatedLines: number;
+    files: number;
+}
+
+// Rolling hash modulus; small enough that products stay exact in a double
+const HASH_MODULUS = 67108859;
+const HASH_BASE = 257;
+
+const wordPattern = /[\p{L}\p{N}_$]/u;
+
+/**
+ * Splits source into identifier, number, string and punctuation tokens. Whitespace and comments
+ * are dropped, so clones are found regardless of formatting and commentary.
+ */
+export function tokenize(content: string, comments: CommentSyntax = {}): Token[] {
+    const tokens: Token[] = [];
+    const lineComments = comments.line || [];
+    const blockComments = comments.block || [];
+    // Longest first, so '"""' wins over '"'
+    const strings = [...(comments.strings || [])].sort((a, b) => b.length - a.length);
+
+    let line = 0;
+    let i = 0;
+    const advance = (to: number) => {
+        for (; i < to && i < content.length; i++) {
+            if (content[i] === '\n') {
+                line++;
+            }
+        }
+    };
+
+    while (i < content.length) {
+        const char = content[i];
+        if (/\s/.test(char)) {
+            advance(i + 1);
+            continue;
+        }
+
+        const lineComment = lineComments.find(marker => content.startsWith(marker, i));
+        if (lineComment) {
+            const end = content.indexOf('\n', i);
+            advance(end === -1 ? content.length : end);
+            continue;
+        }
+
+        const block = blockComments.find(([open]) => content.startsWith(open, i));
+        if (block) {
+            let depth = 0;
+            let j = i;
+            while (j < content.length) {
+                if (content.startsWith(block[0], j) && (depth === 0 || comments.nested)) {
+                    depth++;
+                    j += block[0].length;
+                } else if (content.startsWith(block[1], j)) {
+                    depth--;
+                    j += block[1].length;
+                    if (depth === 0) {
+                        break;
+                    }
+                } else {
+                    j++;
+                }
+            }
+            advance(j);
+            continue;
+        }
+
+        const delimiter = strings.find(d => content.startsWith(d, i));
+        if (delimiter) {
+            const startLine = line;
+            let j = i + delimiter.length;
+            while (j < content.length && !content.startsWith(delimiter, j)) {
+                // Single-line strings end at the line break if they are never closed
+                if (content[j] === '\n' && delimiter !== '`' && delimiter.length !== 3) {
+                    break;
+                }
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            const end = Math.min(content.length, content.startsWith(delimiter, j) ? j + delimiter.length : j);
+            tokens.push({ value: content.slice(i, end), line: startLine });
+            advance(end);
+            continue;
+        }
+
+        if (wordPattern.test(char)) {
+            let j = i + 1;
+            while (j < content.length && wordPattern.test(content[j])) {
+                j++;
+            }
+            tokens.push({ value: content.slice(i, j), line });
+            advance(j);
+            continue;
+        }
+
+        tokens.push({ value: char, line });
+        advance(i + 1);
+    }
+
+    return tokens;
+}
+
+// 32-bit FNV-1a; tokens are compared by this hash, so a collision could at worst stretch a clone by a token
+function hashToken(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export function fingerprint(tokens: Token[]): TokenFingerprint {
+    return {
+        hashes: Uint32Array.from(tokens, token => hashToken(token.value)),
+        lines: Uint32Array.from(tokens, token => token.line)
+    };
+}
+
+// Hash of every window of `size` tokens, indexed by the window's first token
+function windowHashes(tokenHashes: Uint32Array, size: number): number[] {
+    const hashes: number[] = [];
+    if (tokenHashes.length < size) {
+        return hashes;
+    }
+
+    // HASH_BASE^(size-1), used to drop the token leaving the window
+    let highPower = 1;
+    for (let k = 1; k < size; k++) {
+        highPower = (highPower * HASH_BASE) % HASH_MODULUS;
+    }
+
+    let hash = 0;
+    for (let k = 0; k < size; k++) {
+        hash = (hash * HASH_BASE + tokenHashes[k] % HASH_MODULUS) % HASH_MODULUS;
+    }
+    hashes.push(hash);
+
+    for (let k = size; k < tokenHashes.length; k++) {
+        hash = (hash - ((tokenHashes[k - size] % HASH_MODULUS) * highPower) % HASH_MODULUS + HASH_MODULUS) % HASH_MODULUS;
+        hash = (hash * HASH_BASE + tokenHashes[k] % HASH_MODULUS) % HASH_MODULUS;
+        hashes.push(hash);
+    }
+    return hashes;
+}
+
+/**
+ * Finds token sequences of at least `minTokens` tokens and `minLines` lines that appear more than
+ * once, within a file or across files. Files are added one at a time, so callers can yield between
+ * them. Each repeat is reported once, against the first occurrence, and extended as far as the
+ * tokens keep matching.
+ */
+export class CloneDetector {
+    private readonly minTokens: number;
+    private readonly files: { filePath: string; fingerprint: TokenFingerprint }[] = [];
+    private readonly firstSeen = new Map<number, { file: number; index: number }>();
+    private readonly clones: Clone[] = [];
+
+    constructor(private readonly options: CloneOptions) {
+        this.minTokens = Math.max(1, options.minTokens);
+    }
+
+    addFile(filePath: string, fingerprint: TokenFingerprint): void {
+        const fileIndex = this.files.length;
+        this.files.push({ filePath, fingerprint });
+
+        const { hashes: tokens, lines } = fingerprint;
+        const hashes = windowHashes(tokens, this.minTokens);
+
+        let index = 0;
+        while (index < hashes.length) {
+            const hash = hashes[index];
+            const seen = this.firstSeen.get(hash);
+            if (!seen) {
+                this.firstSeen.set(hash, { file: fileIndex, index });
+                index++;
+                continue;
+            }
+
+            const original = this.files[seen.file];
+            const originalTokens = original.fingerprint.hashes;
+            // Within one file the occurrences must not overlap
+            const limit = seen.file === fileIndex ? index - seen.index : Infinity;
+            let length = 0;
+            while (
+                length < limit &&
+                index + length < tokens.length &&
+                seen.index + length < originalTokens.length &&
+                tokens[index + length] === originalTokens[seen.index + length]
+            ) {
+                length++;
+            }
+
+            // Shorter matches are hash collisions or overlapping repeats
+            if (length < this.minTokens) {
+                index++;
+                continue;
+            }
+
+            const duplicate: CodeLocation = { filePath, startLine: lines[index], endLine: lines[index + length - 1] };
+            const lineCount = duplicate.endLine - duplicate.startLine + 1;
+            if (lineCount < this.options.minLines) {
+                index++;
+                continue;
+            }
+
+            this.clones.push({
+                original: {
+                    filePath: original.filePath,
+                    startLine: original.fingerprint.lines[seen.index],
+                    endLine: original.fingerprint.lines[seen.index + length - 1]
+                },
+                duplicate,
+                tokens: length,
+                lines: lineCount
+            });
+            index += length;
+        }
+    }
+
+    // Longest clones first
+    getClones(): Clone[] {
+        return [...this.clones].sort((a, b) => b.lines - a.lines || b.tokens - a.tokens);
+    }
+}
+
+export function findClones(files: { filePath: string; tokens: Token[] }[], options: CloneOptions): Clone[] {
+    const detector = new CloneDetector(options);
+    for (const file of files) {
+        detector.addFile(file.filePath, fingerprint(file.tokens));
+    }
+    return detector.getClones();
+}
+
+export function summarizeClones(clones: Clone[]): CloneSummary {
+    const files = new Set<string>();
+    for (const clone of clones) {
+        files.add(clone.original.filePath);
+        files.add(clone.duplicate.filePath);
+    }
+    return {
+        clones: clones.length,
+        duplicatedLines: clones.reduce((sum, clone) => sum + clone.lines, 0),
+        files: files.size
+    };
+}
@@ -0,0 +1,91 @@
+import * as path from 'path';
+
+// Data for the Line Count Dashboard webview; kept free of vscode so it can be tested
+
+export interface DashboardNode {
+    name: string;
+    path: string;
+    lines: number;
+    files: number;
+    // Present on folders only; sorted largest first
+    children?: DashboardNode[];
+}
+
+export interface HistogramBucket {
+    label: string;
+    min: number;
+    files: number;
+}
+
+// Lower bounds of the file size histogram buckets
+const HISTOGRAM_BOUNDS = [0, 50, 100, 200, 500, 1000, 2000];
+
+export function buildHistogram(lineCounts: number[]): HistogramBucket[] {
+    const buckets = HISTOGRAM_BOUNDS.map((min, i) => ({
+        label: i + 1 < HISTOGRAM_BOUNDS.length ? `${min}–${HISTOGRAM_BOUNDS[i + 1] - 1}` : `${min}+`,
+        min,
+        files: 0
+    }));
+
+    for (const lines of lineCounts) {
+        let index = buckets.length - 1;
+        while (index > 0 && lines < buckets[index].min) {
+            index--;
+        }
+        buckets[index].files++;
+    }
+    return buckets;
+}
+
+/**
+ * Nests files under their directories, starting at the workspace folder. Directories
+ * without counted files do not appear.
+ */
+export function buildFolderNode(name: string, folderPath: string, files: { path: string; lines: number }[]): DashboardNode {
+    const root: DashboardNode = { name, path: folderPath, lines: 0, files: 0, children: [] };
+    const directories = new Map<string, DashboardNode>([[folderPath, root]]);
+
+    const getDirectory = (dirPath: string): DashboardNode => {
+        let node = directories.get(dirPath);
+        if (!node) {
+            node = { name: path.basename(dirPath), path: dirPath, lines: 0, files: 0, children: [] };
+            directories.set(dirPath, node);
+            getDirectory(path.dirname(dirPath)).children!.push(node);
+        }
+        return node;
+    };
+
+    for (const file of files) {
+        if (!file.path.startsWith(folderPath + path.sep)) {
+            continue;
+        }
+        getDirectory(path.dirname(file.path)).children!.push({ name: path.basename(file.path), path: file.path, lines: file.lines, files: 1 });
+    }
+
+    const total = (node: DashboardNode): void => {
+        if (!node.children) {
+            return;
+        }
+        node.children.forEach(total);
+        node.lines = node.children.reduce((sum, child) => sum + child.lines, 0);
+        node.files = node.children.reduce((sum, child) => sum + child.files, 0);
+        node.children.sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+    };
+    total(root);
+
+    return root;
+}
+
+// One node per workspace folder, under a workspace node when there are several
+export function buildWorkspaceNode(name: string, folders: DashboardNode[]): DashboardNode {
+    if (folders.length === 1) {
+        return folders[0];
+    }
+    return {
+        name,
+        path: '',
+        lines: folders.reduce((sum, f) => sum + f.lines, 0),
+        files: folders.reduce((sum, f) => sum + f.files, 0),
+        children: [...folders].sort((a, b) => b.lines - a.lines)
+    };
+}
@@ -1,26 +1,93 @@
 import * as vscode from 'vscode';
 import { LineCountDecorationProvider } from './LineCountDecorationProvider';
-import { FileTreeProvider } from './FileTreeProvider';
+import { FileTreeProvider, TreeSortOrder } from './FileTreeProvider';
 import { AiAnalysisService } from './AiAnalysisService';
+import { ApiKeyStore } from './ApiKeyStore';
+import { AiHistoryStore } from './AiHistoryStore';
+import { AiComparisonPanel } from './AiComparisonPanel';
+import { LineCountIndex } from './LineCountIndex';
+import { GitHistoryService } from './GitHistoryService';
+import { BaselineStore } from './BaselineStore';
+import { ReportExportService } from './ReportExportService';
+import { BudgetDiagnostics } from './BudgetDiagnostics';
+import { DashboardPanel } from './DashboardPanel';
+import { Clone, CodeLocation } from './cloneDetector';
+import { initLocalization, t } from './localization';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('File Line Counter is now active!');
 
-	// 1. Register FileDecorationProvider for badges in main Explorer
-	const decorationProvider = new LineCountDecorationProvider();
+	// Bundles for a UI language other than the VS Code display language are read from the extension folder
+	initLocalization(context.extensionUri);
+
+	// Shared line count index, persisted in workspace storage between sessions
+	const index = new LineCountIndex(context.storageUri);
+	context.subscriptions.push(index);
+
+	// Named snapshots for the "since baseline" deltas, kept per workspace
+	const baselines = new BaselineStore(context.workspaceState);
+
+	// Past AI analyses with the statistics they were based on, also kept per workspace
+	const aiHistory = new AiHistoryStore(context.workspaceState);
+	context.subscriptions.push(aiHistory);
+
+	// 1. Register TreeView with Summary + Files (integrated view)
+	const fileTreeProvider = new FileTreeProvider(index, baselines, context.workspaceState, aiHistory);
+	const treeView = vscode.window.createTreeView('lineCountView', { treeDataProvider: fileTreeProvider });
+	context.subscriptions.push(treeView);
+
+	// The current sort and filters are shown next to the view title
+	const updateViewDescription = () => {
+		treeView.description = fileTreeProvider.describeViewOptions();
+		vscode.commands.executeCommand('setContext', 'fileLineCounter.filtered', fileTreeProvider.isFiltered());
+	};
+	updateViewDescription();
+
+	// 2. Register FileDecorationProvider for badges in main Explorer (folders use the tree's totals)
+	const decorationProvider = new LineCountDecorationProvider(index, dirPath => fileTreeProvider.getDirectoryTotals(dirPath));
 	context.subscriptions.push(
-		vscode.window.registerFileDecorationProvider(decorationProvider)
+		vscode.window.registerFileDecorationProvider(decorationProvider),
+		fileTreeProvider.onDidChangeDirectoryTotals(uris => decorationProvider.updateDirectories(uris))
 	);
 
-	// 2. Register TreeView with Summary + Files (integrated view)
-	const fileTreeProvider = new FileTreeProvider();
-	vscode.window.registerTreeDataProvider('lineCountView', fileTreeProvider);
-
 	// 3. Register AI Analysis Service and Command
-	const aiService = new AiAnalysisService(fileTreeProvider);
+	// API keys live in secret storage, one per provider; keys left in settings are moved there
+	const apiKeys = new ApiKeyStore(context.secrets);
+	const migrateApiKeys = () => apiKeys.migrateFromSettings().catch(error => {
+		vscode.window.showErrorMessage(t('Could not move API keys from the settings to secret storage: {0}', error instanceof Error ? error.message : String(error)));
+	});
+	migrateApiKeys();
+	const aiService = new AiAnalysisService(fileTreeProvider, apiKeys, aiHistory);
+	const aiComparison = new AiComparisonPanel(aiHistory);
 	context.subscriptions.push(
 		vscode.commands.registerCommand('file-line-counter.analyzeWithAI', () => {
 			aiService.analyzeWithAI();
+		}),
+		vscode.commands.registerCommand('file-line-counter.setApiKey', () => {
+			aiService.setApiKey();
+		}),
+		vscode.commands.registerCommand('file-line-counter.clearApiKey', () => {
+			aiService.clearApiKey();
+		}),
+		// Large file items, split recommendations, Explorer files or the active editor
+		vscode.commands.registerCommand('file-line-counter.proposeSplit', (target?: vscode.Uri | { filePath?: string }) => {
+			aiService.proposeSplit(target);
+		}),
+		// Saved analyses under Recommendations > AI History
+		vscode.commands.registerCommand('file-line-counter.openAiAnalysis', (id: string) => {
+			aiService.openAnalysis(id);
+		}),
+		vscode.commands.registerCommand('file-line-counter.compareAiAnalyses', (item?: { analysisId?: string }) => {
+			aiComparison.compare(item?.analysisId);
+		}),
+		vscode.commands.registerCommand('file-line-counter.deleteAiAnalysis', async (item?: { analysisId?: string; label?: string }) => {
+			if (!item?.analysisId) {
+				return;
+			}
+			const choice = await vscode.window.showWarningMessage(t('Delete the AI analysis from {0}?', item.label || ''), { modal: true }, t('Delete'));
+			if (choice) {
+				await aiHistory.delete(item.analysisId);
+			}
 		})
 	);
 
@@ -32,22 +99,193 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
-	// Refresh providers when files change
+	// 5. Register Git History Trend Command (tree items, Explorer entries or a picker)
+	const historyService = new GitHistoryService(fileTreeProvider);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.showHistoryTrend', (target?: vscode.Uri | { resourceUri?: vscode.Uri; folderPath?: string }) => {
+			historyService.showTrend(target);
+		})
+	);
+
+	// 6. Register Baseline Commands
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.saveBaseline', async () => {
+			const name = await vscode.window.showInputBox({
+				prompt: t('Name for the line count snapshot'),
+				value: new Date().toISOString().slice(0, 10)
+			});
+			if (!name) {
+				return;
+			}
+
+			const files = await fileTreeProvider.getFileCounts();
+			await baselines.save({ name, createdAt: Date.now(), files });
+
+			const choice = await vscode.window.showInformationMessage(
+				t('Saved line count snapshot "{0}" ({1} files).', name, Object.keys(files).length),
+				t('Use as Baseline')
+			);
+			if (choice) {
+				await baselines.setActive(name);
+				fileTreeProvider.refresh();
+			}
+		}),
+		vscode.commands.registerCommand('file-line-counter.selectBaseline', async () => {
+			const active = baselines.getActive();
+			const items = [
+				{ label: t('No baseline'), description: t('Hide deltas'), name: undefined as string | undefined },
+				...baselines.list()
+					.sort((a, b) => b.createdAt - a.createdAt)
+					.map(s => ({
+						label: s.name === active?.name ? `$(check) ${s.name}` : s.name,
+						description: `${new Date(s.createdAt).toLocaleString()} · ${t('{0} files', Object.keys(s.files).length)}`,
+						name: s.name as string | undefined
+					}))
+			];
+
+			const picked = await vscode.window.showQuickPick(items, { placeHolder: t('Compare line counts against...') });
+			if (picked) {
+				await baselines.setActive(picked.name);
+				fileTreeProvider.refresh();
+			}
+		}),
+		vscode.commands.registerCommand('file-line-counter.deleteBaseline', async () => {
+			const picked = await vscode.window.showQuickPick(
+				baselines.list().map(s => ({ label: s.name, description: new Date(s.createdAt).toLocaleString() })),
+				{ placeHolder: t('Delete line count snapshot...') }
+			);
+			if (picked) {
+				await baselines.delete(picked.label);
+				fileTreeProvider.refresh();
+			}
+		})
+	);
+
+	// 7. Register Report Export Command
+	const reportService = new ReportExportService(fileTreeProvider);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.exportReport', () => {
+			reportService.exportReport();
+		})
+	);
+
+	// 8. Report files over their .linecounterrc.json budget in the Problems panel
+	const budgetDiagnostics = new BudgetDiagnostics(fileTreeProvider);
+	context.subscriptions.push(
+		budgetDiagnostics,
+		vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, budgetDiagnostics, {
+			providedCodeActionKinds: BudgetDiagnostics.providedCodeActionKinds
+		}),
+		fileTreeProvider.onDidChangeTreeData(() => budgetDiagnostics.scheduleUpdate())
+	);
+	budgetDiagnostics.scheduleUpdate();
+
+	// 9. Register Dashboard Command
+	const dashboard = new DashboardPanel(fileTreeProvider);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.showDashboard', () => {
+			dashboard.show();
+		})
+	);
+
+	// 10. Register Sort and Filter Commands for the files section
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.sortBy', async () => {
+			const current = fileTreeProvider.getViewOptions().sortBy;
+			const items: (vscode.QuickPickItem & { sortBy: TreeSortOrder })[] = [
+				{ label: t('Name'), sortBy: 'name' },
+				{ label: t('Line count'), description: t('Largest first'), sortBy: 'lines' },
+				{ label: t('Last modified'), description: t('Most recent first'), sortBy: 'modified' }
+			];
+			const picked = await vscode.window.showQuickPick(
+				items.map(item => ({ ...item, label: item.sortBy === current ? `$(check) ${item.label}` : item.label })),
+				{ placeHolder: t('Sort files by...') }
+			);
+			if (picked) {
+				await fileTreeProvider.setViewOptions({ sortBy: picked.sortBy });
+				updateViewDescription();
+			}
+		}),
+		vscode.commands.registerCommand('file-line-counter.filter', async () => {
+			const options = fileTreeProvider.getViewOptions();
+			const minLines = await vscode.window.showInputBox({
+				prompt: t('Only show files with at least this many lines (0 shows all)'),
+				value: String(options.minLines),
+				validateInput: value => /^\d+$/.test(value.trim()) ? undefined : t('Enter a whole number')
+			});
+			if (minLines === undefined) {
+				return;
+			}
+			const pathFilter = await vscode.window.showInputBox({
+				prompt: t('Only show files whose path contains this text (empty shows all)'),
+				value: options.pathFilter
+			});
+			if (pathFilter === undefined) {
+				return;
+			}
+			await fileTreeProvider.setViewOptions({ minLines: parseInt(minLines.trim(), 10), pathFilter: pathFilter.trim() });
+			updateViewDescription();
+		}),
+		vscode.commands.registerCommand('file-line-counter.clearFilter', async () => {
+			await fileTreeProvider.setViewOptions({ minLines: 0, pathFilter: '' });
+			updateViewDescription();
+		})
+	);
+
+	// 11. Open both copies of a duplicated block next to each other
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-line-counter.openDuplicate', async (clone: Clone) => {
+			const open = (location: CodeLocation, viewColumn: vscode.ViewColumn) => vscode.window.showTextDocument(vscode.Uri.file(location.filePath), {
+				viewColumn,
+				preview: false,
+				selection: new vscode.Range(location.startLine, 0, location.endLine + 1, 0)
+			});
+			await open(clone.original, vscode.ViewColumn.One);
+			await open(clone.duplicate, vscode.ViewColumn.Beside);
+		})
+	);
+
+	// Update only the affected entries when files change
 	const watcher = vscode.workspace.createFileSystemWatcher('**/*');
-	watcher.onDidChange(() => {
-		decorationProvider.refresh();
-		fileTreeProvider.refresh();
+	watcher.onDidChange(uri => {
+		decorationProvider.updateFile(uri);
+		fileTreeProvider.updateFile(uri);
 	});
-	watcher.onDidCreate(() => {
-		decorationProvider.refresh();
-		fileTreeProvider.refresh();
+	watcher.onDidCreate(uri => {
+		decorationProvider.updateFile(uri);
+		fileTreeProvider.updateFile(uri);
 	});
-	watcher.onDidDelete(() => {
-		decorationProvider.refresh();
-		fileTreeProvider.refresh();
+	watcher.onDidDelete(uri => {
+		fileTreeProvider.removeFile(uri);
 	});
 
 	context.subscriptions.push(watcher);
+
+	// Settings changes can alter thresholds, ignore lists or the count mode
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (!e.affectsConfiguration('fileLineCounter')) {
+				return;
+			}
+			if (e.affectsConfiguration('fileLineCounter.apiKey') || e.affectsConfiguration('fileLineCounter.geminiApiKey')) {
+				migrateApiKeys();
+			}
+			// Different comment syntax or size limit means every cached breakdown may be wrong
+			if (e.affectsConfiguration('fileLineCounter.languages') || e.affectsConfiguration('fileLineCounter.largeFileSizeMB')) {
+				index.clear();
+			}
+			decorationProvider.refresh();
+			fileTreeProvider.refresh();
+		})
+	);
+
+	// Adding or removing workspace folders changes the root nodes and their ignore files
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			decorationProvider.refresh();
+			fileTreeProvider.refresh();
+		})
+	);
 }
 
 export function deactivate() { }
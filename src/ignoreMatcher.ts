@@ -0,0 +1,255 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface IgnoreOptions {
+    ignoreListActive: boolean;
+    ignoreFiles: string[];
+    whitelistActive: boolean;
+    includeFiles: string[];
+}
+
+export interface PatternRule {
+    // Directory that holds the ignore file; patterns are relative to it
+    base: string;
+    regex: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+    // Patterns without a slash match the file name at any depth
+    matchBasename: boolean;
+}
+
+type RuleKind = 'ignore' | 'include';
+
+// Translate a single gitignore glob into a regular expression source
+function globToRegex(glob: string): string {
+    let out = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const ch = glob[i];
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+
+        if (ch === '*' && glob[i + 1] === '*' && atSegmentStart && (i + 2 === glob.length || glob[i + 2] === '/')) {
+            if (i + 2 === glob.length) {
+                // Trailing '**' matches everything inside
+                out += '.*';
+                i += 2;
+            } else {
+                // Leading or middle '**/' matches zero or more directories
+                out += '(?:.*/)?';
+                i += 3;
+            }
+        } else if (ch === '*') {
+            out += '[^/]*';
+            i++;
+        } else if (ch === '?') {
+            out += '[^/]';
+            i++;
+        } else if (ch === '[') {
+            const close = glob.indexOf(']', i + 2);
+            if (close === -1) {
+                out += '\\[';
+                i++;
+                continue;
+            }
+            let body = glob.slice(i + 1, close);
+            let negated = false;
+            if (body.startsWith('!') || body.startsWith('^')) {
+                negated = true;
+                body = body.slice(1);
+            }
+            body = body.replace(/\\/g, '\\\\').replace(/\]/g, '\\]');
+            out += negated ? `[^/${body}]` : `[${body}]`;
+            i = close + 1;
+        } else if (ch === '\\' && i + 1 < glob.length) {
+            out += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i += 2;
+        } else {
+            out += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i++;
+        }
+    }
+
+    return out;
+}
+
+export function parsePattern(line: string, base: string): PatternRule | undefined {
+    // Trailing whitespace is ignored unless escaped with a backslash
+    let pattern = line.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+        return undefined;
+    }
+
+    let negate = false;
+    if (pattern.startsWith('!')) {
+        negate = true;
+        pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (pattern.endsWith('/')) {
+        directoryOnly = true;
+        pattern = pattern.replace(/\/+$/, '');
+    }
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const matchBasename = !pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (!pattern) {
+        return undefined;
+    }
+
+    return {
+        base,
+        regex: new RegExp('^' + globToRegex(pattern) + '$'),
+        negate,
+        directoryOnly,
+        matchBasename
+    };
+}
+
+export function parsePatterns(content: string, base: string): PatternRule[] {
+    const rules: PatternRule[] = [];
+    for (const line of content.split('\n')) {
+        const rule = parsePattern(line, base);
+        if (rule) {
+            rules.push(rule);
+        }
+    }
+    return rules;
+}
+
+/**
+ * Implements .gitignore semantics for a workspace folder: ignore files are read from
+ * every directory (deeper files take precedence), the last matching pattern wins,
+ * '!' re-includes, and nothing inside an ignored directory can be re-included.
+ */
+export class IgnoreMatcher {
+    private rulesByDirectory = new Map<string, Record<RuleKind, PatternRule[]>>();
+
+    constructor(public readonly root: string, private readonly options: IgnoreOptions) { }
+
+    // True if the path, or any directory above it, is ignored
+    isIgnored(filePath: string, isDirectory: boolean, checkParents = true): boolean {
+        if (!this.options.ignoreListActive) {
+            return false;
+        }
+
+        const relativePath = this.relative(filePath);
+        if (relativePath === undefined) {
+            return false;
+        }
+
+        if (checkParents) {
+            const segments = relativePath.split('/');
+            let current = this.root;
+            for (let i = 0; i < segments.length - 1; i++) {
+                current = path.join(current, segments[i]);
+                if (this.match('ignore', current, true)) {
+                    return true;
+                }
+            }
+        }
+
+        return this.match('ignore', filePath, isDirectory) ?? false;
+    }
+
+    // In whitelist mode a file is included when it, or the nearest directory above it, matches an include pattern
+    isIncluded(filePath: string, isDirectory: boolean): boolean {
+        if (!this.options.whitelistActive) {
+            return true;
+        }
+
+        // Directories are always walked so that included files inside them are reachable
+        if (isDirectory) {
+            return true;
+        }
+
+        const relativePath = this.relative(filePath);
+        if (relativePath === undefined) {
+            return false;
+        }
+
+        const segments = relativePath.split('/');
+        let current = this.root;
+        let included = false;
+        for (let i = 0; i < segments.length; i++) {
+            current = path.join(current, segments[i]);
+            const result = this.match('include', current, i < segments.length - 1);
+            if (result !== undefined) {
+                included = result;
+            }
+        }
+
+        return included;
+    }
+
+    // Combined check used when walking the tree: parents are assumed to have been checked already
+    isExcluded(filePath: string, isDirectory: boolean, checkParents = false): boolean {
+        return this.isIgnored(filePath, isDirectory, checkParents) || !this.isIncluded(filePath, isDirectory);
+    }
+
+    private relative(filePath: string): string | undefined {
+        const relativePath = path.relative(this.root, filePath).replace(/\\/g, '/');
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return undefined;
+        }
+        return relativePath;
+    }
+
+    // Returns true/false for the last matching rule, undefined when nothing matches
+    private match(kind: RuleKind, filePath: string, isDirectory: boolean): boolean | undefined {
+        let result: boolean | undefined;
+        const baseName = path.basename(filePath);
+
+        for (const rule of this.getRulesFor(kind, path.dirname(filePath))) {
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            const subject = rule.matchBasename
+                ? baseName
+                : path.relative(rule.base, filePath).replace(/\\/g, '/');
+            if (rule.regex.test(subject)) {
+                result = !rule.negate;
+            }
+        }
+
+        return result;
+    }
+
+    // Rules from the root down to the given directory, shallowest first, so deeper files win
+    private getRulesFor(kind: RuleKind, directory: string): PatternRule[] {
+        return this.loadRules(directory)[kind];
+    }
+
+    private loadRules(directory: string): Record<RuleKind, PatternRule[]> {
+        let rules = this.rulesByDirectory.get(directory);
+        if (rules) {
+            return rules;
+        }
+
+        const parentDirectory = path.dirname(directory);
+        const parent = directory === this.root || parentDirectory === directory ? undefined : this.loadRules(parentDirectory);
+        rules = {
+            ignore: [...(parent?.ignore || []), ...(this.options.ignoreListActive ? this.readRules(directory, this.options.ignoreFiles) : [])],
+            include: [...(parent?.include || []), ...(this.options.whitelistActive ? this.readRules(directory, this.options.includeFiles) : [])]
+        };
+        this.rulesByDirectory.set(directory, rules);
+        return rules;
+    }
+
+    private readRules(directory: string, fileNames: string[]): PatternRule[] {
+        const rules: PatternRule[] = [];
+        for (const fileName of fileNames) {
+            const filePath = path.join(directory, fileName);
+            if (fs.existsSync(filePath)) {
+                try {
+                    rules.push(...parsePatterns(fs.readFileSync(filePath, 'utf-8'), directory));
+                } catch (e) { /* ignore */ }
+            }
+        }
+        return rules;
+    }
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommentSyntax } from './lineCounter';
+
+export interface LanguageDefinition {
+    name: string;
+    // Lower-case extensions including the dot (e.g. '.ts')
+    extensions?: string[];
+    // Exact file names for extension-less files (e.g. 'Dockerfile')
+    filenames?: string[];
+    // Interpreter names from a '#!' line (e.g. 'node', 'python')
+    shebangs?: string[];
+    comments?: CommentSyntax;
+    // False for data, markup and style sheets: no functions to measure or clones worth reporting
+    code?: boolean;
+}
+
+const C_STYLE: CommentSyntax = {
+    line: ['//'],
+    block: [['/*', '*/']],
+    strings: ['"', "'"]
+};
+
+const JS_STYLE: CommentSyntax = {
+    line: ['//'],
+    block: [['/*', '*/']],
+    strings: ['"', "'", '`']
+};
+
+const NESTED_C_STYLE: CommentSyntax = {
+    line: ['//'],
+    block: [['/*', '*/']],
+    nested: true,
+    strings: ['"""', '"']
+};
+
+const HASH_STYLE: CommentSyntax = {
+    line: ['#'],
+    strings: ['"', "'"]
+};
+
+const MARKUP_STYLE: CommentSyntax = {
+    block: [['<!--', '-->']]
+};
+
+const SFC_STYLE: CommentSyntax = {
+    line: ['//'],
+    block: [['<!--', '-->'], ['/*', '*/']],
+    strings: ['"', "'", '`']
+};
+
+export const builtInLanguages: LanguageDefinition[] = [
+    { name: 'TypeScript', extensions: ['.ts', '.tsx', '.mts', '.cts'], shebangs: ['ts-node', 'deno', 'bun'], comments: JS_STYLE },
+    { name: 'JavaScript', extensions: ['.js', '.jsx', '.mjs', '.cjs'], shebangs: ['node'], comments: JS_STYLE },
+    { name: 'Python', extensions: ['.py', '.pyw', '.pyi'], shebangs: ['python'], comments: { line: ['#'], strings: ['"""', "'''", '"', "'"] } },
+    { name: 'Java', extensions: ['.java'], comments: C_STYLE },
+    { name: 'C', extensions: ['.c', '.h'], comments: C_STYLE },
+    { name: 'C++', extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'], comments: C_STYLE },
+    { name: 'C#', extensions: ['.cs'], comments: C_STYLE },
+    { name: 'Go', extensions: ['.go'], comments: JS_STYLE },
+    { name: 'Rust', extensions: ['.rs'], comments: { line: ['//'], block: [['/*', '*/']], nested: true, strings: ['"'] } },
+    { name: 'Swift', extensions: ['.swift'], comments: NESTED_C_STYLE },
+    { name: 'Kotlin', extensions: ['.kt', '.kts'], comments: NESTED_C_STYLE },
+    { name: 'Scala', extensions: ['.scala', '.sc'], comments: NESTED_C_STYLE },
+    { name: 'Dart', extensions: ['.dart'], comments: { line: ['//'], block: [['/*', '*/']], nested: true, strings: ['"""', "'''", '"', "'"] } },
+    { name: 'PHP', extensions: ['.php'], shebangs: ['php'], comments: { line: ['//', '#'], block: [['/*', '*/']], strings: ['"', "'"] } },
+    { name: 'Ruby', extensions: ['.rb', '.rake', '.gemspec'], filenames: ['Gemfile', 'Rakefile'], shebangs: ['ruby'], comments: { line: ['#'], block: [['=begin', '=end']], strings: ['"', "'"] } },
+    { name: 'Perl', extensions: ['.pl', '.pm'], shebangs: ['perl'], comments: HASH_STYLE },
+    { name: 'Lua', extensions: ['.lua'], shebangs: ['lua'], comments: { line: ['--'], block: [['--[[', ']]']], strings: ['"', "'"] } },
+    { name: 'Haskell', extensions: ['.hs'], comments: { line: ['--'], block: [['{-', '-}']], nested: true, strings: ['"'] } },
+    { name: 'Elixir', extensions: ['.ex', '.exs'], shebangs: ['elixir'], comments: { line: ['#'], strings: ['"""', '"'] } },
+    { name: 'Shell', extensions: ['.sh', '.bash', '.zsh'], shebangs: ['sh', 'bash', 'zsh', 'dash'], comments: HASH_STYLE },
+    { name: 'PowerShell', extensions: ['.ps1', '.psm1'], shebangs: ['pwsh'], comments: { line: ['#'], block: [['<#', '#>']], strings: ['"', "'"] } },
+    { name: 'SQL', extensions: ['.sql'], comments: { line: ['--'], block: [['/*', '*/']], strings: ["'"] } },
+    { name: 'Protocol Buffers', extensions: ['.proto'], comments: C_STYLE },
+    { name: 'GraphQL', extensions: ['.graphql', '.gql'], comments: { line: ['#'], strings: ['"""', '"'] } },
+    { name: 'Terraform', extensions: ['.tf', '.tfvars', '.hcl'], comments: { line: ['#', '//'], block: [['/*', '*/']], strings: ['"'] } },
+    { name: 'Dockerfile', extensions: ['.dockerfile'], filenames: ['Dockerfile', 'Containerfile'], comments: HASH_STYLE },
+    { name: 'Makefile', extensions: ['.mk'], filenames: ['Makefile', 'GNUmakefile'], comments: { line: ['#'] } },
+    { name: 'Vue', extensions: ['.vue'], comments: SFC_STYLE },
+    { name: 'Svelte', extensions: ['.svelte'], comments: SFC_STYLE },
+    { name: 'HTML', extensions: ['.html', '.htm'], comments: MARKUP_STYLE, code: false },
+    { name: 'CSS', extensions: ['.css'], comments: { block: [['/*', '*/']], strings: ['"', "'"] }, code: false },
+    { name: 'SCSS', extensions: ['.scss'], comments: C_STYLE, code: false },
+    { name: 'Less', extensions: ['.less'], comments: C_STYLE, code: false },
+    { name: 'JSON', extensions: ['.json'], code: false },
+    { name: 'JSON with Comments', extensions: ['.jsonc', '.json5'], comments: C_STYLE, code: false },
+    { name: 'YAML', extensions: ['.yaml', '.yml'], comments: HASH_STYLE, code: false },
+    { name: 'TOML', extensions: ['.toml'], comments: HASH_STYLE, code: false },
+    { name: 'INI', extensions: ['.ini', '.cfg'], comments: { line: [';', '#'] }, code: false },
+    { name: 'XML', extensions: ['.xml', '.xsd', '.xsl'], comments: MARKUP_STYLE, code: false },
+    { name: 'Markdown', extensions: ['.md', '.markdown'], comments: MARKUP_STYLE, code: false },
+    { name: 'Text', extensions: ['.txt'], code: false }
+];
+
+export class LanguageRegistry {
+    private byExtension = new Map<string, LanguageDefinition>();
+    private byFilename = new Map<string, LanguageDefinition>();
+    private byShebang = new Map<string, LanguageDefinition>();
+    private byName = new Map<string, LanguageDefinition>();
+
+    // User definitions replace built-ins with the same name and win on conflicting extensions
+    constructor(userLanguages: LanguageDefinition[] = []) {
+        const userNames = new Set(userLanguages.map(l => l.name));
+        const languages = [...builtInLanguages.filter(l => !userNames.has(l.name)), ...userLanguages];
+
+        for (const language of languages) {
+            this.byName.set(language.name, language);
+            // Settings may list 'bicep' as well as '.bicep'
+            for (const ext of language.extensions || []) {
+                const normalized = ext.trim().toLowerCase();
+                this.byExtension.set(normalized.startsWith('.') ? normalized : `.${normalized}`, language);
+            }
+            for (const filename of language.filenames || []) {
+                this.byFilename.set(filename.toLowerCase(), language);
+            }
+            for (const interpreter of language.shebangs || []) {
+                this.byShebang.set(interpreter, language);
+            }
+        }
+    }
+
+    // Whether symbols and duplicates are worth looking for in files of this language
+    isCode(name: string): boolean {
+        return this.byName.get(name)?.code !== false;
+    }
+
+    detect(filePath: string): LanguageDefinition | undefined {
+        const fileName = path.basename(filePath).toLowerCase();
+
+        const byName = this.byFilename.get(fileName);
+        if (byName) {
+            return byName;
+        }
+
+        const ext = path.extname(fileName);
+        if (ext) {
+            return this.byExtension.get(ext);
+        }
+
+        // Extension-less scripts: look at the interpreter on the '#!' line
+        const interpreter = this.readShebang(filePath);
+        return interpreter ? this.byShebang.get(interpreter) : undefined;
+    }
+
+    private readShebang(filePath: string): string | undefined {
+        let fd: number | undefined;
+        try {
+            fd = fs.openSync(filePath, 'r');
+            const buffer = Buffer.alloc(128);
+            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+            const firstLine = buffer.toString('utf-8', 0, bytesRead).split('\n')[0];
+            if (!firstLine.startsWith('#!')) {
+                return undefined;
+            }
+
+            // '#!/usr/bin/env python3' -> 'python', '#!/bin/bash' -> 'bash'
+            const parts = firstLine.slice(2).trim().split(/\s+/);
+            const program = path.basename(parts[0]) === 'env' ? parts.find((p, i) => i > 0 && !p.startsWith('-')) : parts[0];
+            return program ? path.basename(program).replace(/[\d.]+$/, '') : undefined;
+        } catch (error) {
+            return undefined;
+        } finally {
+            if (fd !== undefined) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+}
@@ -1,11 +1,286 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
 
-export async function countLines(filePath: string): Promise<number> {
+// 'large' files only have a newline count (total); code/comment/blank are not analysed
+export type FileKind = 'text' | 'binary' | 'large' | 'unreadable';
+
+export interface LineCounts {
+    code: number;
+    comment: number;
+    blank: number;
+    total: number;
+    kind?: FileKind;
+}
+
+// 'total' counts every physical line, 'code' only lines that contain code
+export type CountMode = 'total' | 'code';
+
+export interface CommentSyntax {
+    // Markers that comment out the rest of the line (e.g. '//', '#')
+    line?: string[];
+    // Block comment delimiters as [open, close] pairs (e.g. ['/*', '*/'])
+    block?: [string, string][];
+    // Whether block comments of the same kind can be nested (Rust, Swift, Kotlin...)
+    nested?: boolean;
+    // String delimiters; comment markers inside strings are not comments
+    strings?: string[];
+}
+
+// Files above this size only get their newlines counted
+export const DEFAULT_LARGE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Bytes inspected for NUL characters before a file is treated as text
+const BINARY_SNIFF_BYTES = 8000;
+
+const binaryExtensions = new Set([
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tiff', '.psd',
+    '.mp3', '.mp4', '.wav', '.ogg', '.flac', '.avi', '.mov', '.mkv', '.webm',
+    '.zip', '.gz', '.tgz', '.bz2', '.xz', '.7z', '.rar', '.tar', '.jar', '.war',
+    '.exe', '.dll', '.so', '.dylib', '.o', '.a', '.lib', '.class', '.pyc', '.wasm', '.node',
+    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+    '.woff', '.woff2', '.ttf', '.otf', '.eot',
+    '.sqlite', '.db', '.bin', '.dat', '.vsix'
+]);
+
+export function isBinaryExtension(filePath: string): boolean {
+    return binaryExtensions.has(path.extname(filePath).toLowerCase());
+}
+
+// Strings opened with a backtick or a triple quote may span several lines
+function isMultilineString(delimiter: string): boolean {
+    return delimiter === '`' || delimiter.length === 3;
+}
+
+/**
+ * Classifies lines one at a time so that content can be fed from a stream;
+ * block comment and multi-line string state carries over between lines.
+ */
+export class LineAnalyzer {
+    readonly counts: LineCounts = { code: 0, comment: 0, blank: 0, total: 0 };
+
+    private readonly strings: string[];
+    private readonly lineMarkers: string[];
+    private readonly blocks: [string, string][];
+    private openBlock: [string, string] | undefined;
+    private blockDepth = 0;
+    private openString: string | undefined;
+
+    constructor(private readonly syntax?: CommentSyntax) {
+        // Longest delimiters first so '"""' wins over '"'
+        this.strings = [...(syntax?.strings || [])].sort((a, b) => b.length - a.length);
+        this.lineMarkers = syntax?.line || [];
+        this.blocks = syntax?.block || [];
+    }
+
+    addLine(line: string): void {
+        const counts = this.counts;
+        counts.total++;
+
+        let hasCode = this.openString !== undefined && line.trim() !== '';
+        let hasComment = this.blockDepth > 0 && line.trim() !== '';
+        let i = 0;
+
+        while (i < line.length) {
+            if (this.openString) {
+                if (line[i] === '\\' && this.openString.length === 1) {
+                    i += 2;
+                    continue;
+                }
+                if (line.startsWith(this.openString, i)) {
+                    i += this.openString.length;
+                    this.openString = undefined;
+                } else {
+                    i++;
+                }
+                continue;
+            }
+
+            if (this.openBlock) {
+                if (this.syntax?.nested && line.startsWith(this.openBlock[0], i)) {
+                    this.blockDepth++;
+                    i += this.openBlock[0].length;
+                } else if (line.startsWith(this.openBlock[1], i)) {
+                    this.blockDepth--;
+                    i += this.openBlock[1].length;
+                    if (this.blockDepth === 0) {
+                        this.openBlock = undefined;
+                    }
+                } else {
+                    i++;
+                }
+                continue;
+            }
+
+            if (/\s/.test(line[i])) {
+                i++;
+                continue;
+            }
+
+            // Block openers first: Lua '--[[' and PowerShell '<#' start with a line marker
+            const block = this.blocks.find(([open]) => line.startsWith(open, i));
+            if (block) {
+                this.openBlock = block;
+                this.blockDepth = 1;
+                hasComment = true;
+                i += block[0].length;
+                continue;
+            }
+
+            if (this.lineMarkers.some(marker => line.startsWith(marker, i))) {
+                hasComment = true;
+                break;
+            }
+
+            const delimiter = this.strings.find(s => line.startsWith(s, i));
+            if (delimiter) {
+                this.openString = delimiter;
+                hasCode = true;
+                i += delimiter.length;
+                continue;
+            }
+
+            hasCode = true;
+            i++;
+        }
+
+        // Single-line strings cannot run past the end of the line
+        if (this.openString && !isMultilineString(this.openString)) {
+            this.openString = undefined;
+        }
+
+        if (hasCode) {
+            counts.code++;
+        } else if (hasComment) {
+            counts.comment++;
+        } else {
+            counts.blank++;
+        }
+    }
+}
+
+export function analyzeContent(content: string, syntax?: CommentSyntax): LineCounts {
+    const analyzer = new LineAnalyzer(syntax);
+    if (content.length === 0) {
+        return analyzer.counts;
+    }
+
+    const lines = content.split(/\r?\n/);
+    // A trailing newline terminates the last line, it does not start a new one
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    for (const line of lines) {
+        analyzer.addLine(line);
+    }
+
+    return analyzer.counts;
+}
+
+export function selectCount(counts: LineCounts, mode: CountMode): number {
+    // Large files were never analysed, so their total is the best available number
+    return mode === 'code' && counts.kind !== 'large' ? counts.code : counts.total;
+}
+
+function emptyCounts(kind: FileKind): LineCounts {
+    return { code: 0, comment: 0, blank: 0, total: 0, kind };
+}
+
+/**
+ * Streams the file instead of loading it into memory. Binary files (known extension or a NUL
+ * byte near the start) are not counted, and files above `largeFileBytes` only get newlines counted.
+ */
+export async function countLineBreakdown(filePath: string, syntax?: CommentSyntax, largeFileBytes = DEFAULT_LARGE_FILE_BYTES): Promise<LineCounts> {
+    if (isBinaryExtension(filePath)) {
+        return emptyCounts('binary');
+    }
+
+    let size: number;
     try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const lines = content.split('\n').length;
-        return lines;
+        size = (await fs.promises.stat(filePath)).size;
     } catch (error) {
-        return 0;
+        return emptyCounts('unreadable');
     }
-}
\ No newline at end of file
+
+    const large = size > largeFileBytes;
+    const analyzer = new LineAnalyzer(syntax);
+    const decoder = new StringDecoder('utf8');
+    let newlines = 0;
+    let lastByte = -1;
+    let sniffed = 0;
+    let remainder = '';
+
+    return new Promise<LineCounts>(resolve => {
+        const stream = fs.createReadStream(filePath, { highWaterMark: 64 * 1024 });
+
+        stream.on('data', (chunk: string | Buffer) => {
+            const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+
+            if (sniffed < BINARY_SNIFF_BYTES) {
+                const sniff = buffer.subarray(0, BINARY_SNIFF_BYTES - sniffed);
+                sniffed += sniff.length;
+                if (sniff.includes(0)) {
+                    stream.destroy();
+                    resolve(emptyCounts('binary'));
+                    return;
+                }
+            }
+
+            if (buffer.length > 0) {
+                lastByte = buffer[buffer.length - 1];
+            }
+
+            if (large) {
+                for (let i = buffer.indexOf(10); i !== -1; i = buffer.indexOf(10, i + 1)) {
+                    newlines++;
+                }
+                return;
+            }
+
+            const lines = (remainder + decoder.write(buffer)).split('\n');
+            remainder = lines.pop()!;
+            for (const line of lines) {
+                analyzer.addLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+            }
+        });
+
+        stream.on('error', () => resolve(emptyCounts('unreadable')));
+
+        stream.on('end', () => {
+            if (large) {
+                // A last line without a trailing newline still counts
+                const total = lastByte === -1 || lastByte === 10 ? newlines : newlines + 1;
+                resolve({ code: 0, comment: 0, blank: 0, total, kind: 'large' });
+                return;
+            }
+
+            remainder += decoder.end();
+            if (remainder !== '') {
+                analyzer.addLine(remainder.endsWith('\r') ? remainder.slice(0, -1) : remainder);
+            }
+            resolve({ ...analyzer.counts, kind: 'text' });
+        });
+    });
+}
+
+export async function countLines(filePath: string, syntax?: CommentSyntax, largeFileBytes?: number): Promise<number> {
+    const counts = await countLineBreakdown(filePath, syntax, largeFileBytes);
+    return counts.total;
+}
+
+// Runs `worker` over `items` with at most `limit` calls in flight, preserving order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const run = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await worker(items[i]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+    return results;
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Languages with a bundle in l10n/; English is the source text itself
+export const SUPPORTED_LANGUAGES = ['en', 'he', 'ar'];
+const RTL_LANGUAGES = ['he', 'ar'];
+
+let bundleFolder: string | undefined;
+const bundles = new Map<string, Record<string, string>>();
+
+// Called on activation, before anything is translated
+export function initLocalization(extensionUri: vscode.Uri): void {
+    bundleFolder = vscode.Uri.joinPath(extensionUri, 'l10n').fsPath;
+    bundles.clear();
+}
+
+function baseLanguage(locale: string): string {
+    return locale.toLowerCase().split('-')[0];
+}
+
+/**
+ * The UI language: the `fileLineCounter.language` setting, or the VS Code display language
+ * when it is 'auto'. Languages without a bundle fall back to English.
+ */
+export function getLanguage(): string {
+    const setting = vscode.workspace.getConfiguration('fileLineCounter').get<string>('language', 'auto');
+    const language = baseLanguage(setting === 'auto' ? vscode.env.language : setting);
+    return SUPPORTED_LANGUAGES.includes(language) ? language : 'en';
+}
+
+export function isRtl(): boolean {
+    return RTL_LANGUAGES.includes(getLanguage());
+}
+
+// The English name, for asking the AI to answer in the UI language
+export function getLanguageName(): string | undefined {
+    return ({ he: 'Hebrew', ar: 'Arabic' } as Record<string, string>)[getLanguage()];
+}
+
+function loadBundle(language: string): Record<string, string> {
+    let bundle = bundles.get(language);
+    if (!bundle) {
+        try {
+            bundle = bundleFolder ? JSON.parse(fs.readFileSync(path.join(bundleFolder, `bundle.l10n.${language}.json`), 'utf8')) : {};
+        } catch {
+            bundle = {};
+        }
+        bundles.set(language, bundle!);
+    }
+    return bundle!;
+}
+
+/**
+ * Translates an English message with `{0}`-style placeholders. VS Code loads the bundle of the
+ * display language itself; another language picked in the settings is read from l10n/ here.
+ */
+export function t(message: string, ...args: (string | number)[]): string {
+    const language = getLanguage();
+    if (language === baseLanguage(vscode.env.language)) {
+        return vscode.l10n.t(message, ...args);
+    }
+    return formatMessage(language === 'en' ? message : loadBundle(language)[message] ?? message, ...args);
+}
+
+// Fills the placeholders without translating, for output that must not depend on the UI language
+export function formatMessage(message: string, ...args: (string | number)[]): string {
+    return message.replace(/\{(\d+)\}/g, (placeholder, index: string) => {
+        const arg = args[Number(index)];
+        return arg === undefined ? placeholder : String(arg);
+    });
+}
@@ -0,0 +1,133 @@
+import MarkdownIt = require('markdown-it');
+import hljs from 'highlight.js/lib/common';
+
+// Markdown to HTML for the AI panel; kept free of vscode so it can be tested
+
+export interface FileReference {
+    // As written in the text: workspace-relative, or relative to a workspace folder
+    path: string;
+    // One-based
+    line?: number;
+}
+
+export interface RenderOptions {
+    // Decides which paths mentioned in the text are files that can be opened
+    isFile?: (path: string) => boolean;
+}
+
+type Token = ReturnType<MarkdownIt['parse']>[number];
+
+// 'src/a.ts', 'src/a.ts:12', 'src/a.ts:12-30' or 'src/a.ts#L12'; the extension tells paths from words
+const FILE_REFERENCE = /(?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z][A-Za-z0-9]*(?:(?::|#L)(\d+)(?:-L?\d+)?)?/g;
+
+export function parseFileReference(text: string): FileReference | undefined {
+    const match = new RegExp(`^${FILE_REFERENCE.source}$`).exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    const path = match[0].replace(/(?::|#L)\d+(?:-L?\d+)?$/, '');
+    return { path, line: match[1] ? parseInt(match[1], 10) : undefined };
+}
+
+/**
+ * Raw HTML in the text is escaped rather than passed through, and markdown-it refuses
+ * javascript:, vbscript:, file: and data: links, so answers cannot inject markup or script.
+ */
+const markdown: MarkdownIt = new MarkdownIt({
+    html: false,
+    linkify: true,
+    highlight: (code, language) => {
+        if (language && hljs.getLanguage(language)) {
+            return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+        }
+        // markdown-it escapes the code itself
+        return '';
+    }
+});
+
+// Only links with a scheme; otherwise file names such as README.md would be taken for domains
+markdown.linkify.set({ fuzzyLink: false });
+
+// Table alignment is rendered as a style attribute, which the panel's CSP blocks; a class is allowed
+markdown.core.ruler.push('alignment_classes', state => {
+    for (const token of state.tokens) {
+        const style = token.attrGet('style');
+        if ((token.type === 'th_open' || token.type === 'td_open') && style) {
+            token.attrs = (token.attrs || []).filter(([name]) => name !== 'style');
+            token.attrJoin('class', `align-${style.replace('text-align:', '')}`);
+        }
+    }
+});
+
+// Mentions of workspace files become links the panel turns into "open in editor"
+markdown.core.ruler.push('file_references', state => {
+    const isFile: RenderOptions['isFile'] = state.env?.isFile;
+    if (!isFile) {
+        return;
+    }
+
+    const linkTokens = (reference: FileReference, content: Token[]): Token[] => {
+        const open = new state.Token('link_open', 'a', 1);
+        open.attrs = [['href', '#'], ['class', 'file-link'], ['data-file', reference.path]];
+        if (reference.line) {
+            open.attrPush(['data-line', String(reference.line)]);
+        }
+        return [open, ...content, new state.Token('link_close', 'a', -1)];
+    };
+    const textToken = (content: string): Token => {
+        const token = new state.Token('text', '', 0);
+        token.content = content;
+        return token;
+    };
+
+    for (const block of state.tokens) {
+        if (block.type !== 'inline' || !block.children) {
+            continue;
+        }
+
+        const children: Token[] = [];
+        let linkDepth = 0;
+        for (const token of block.children) {
+            if (token.type === 'link_open') {
+                // Relative links to files, e.g. [parser](src/parser.ts#L12)
+                const href = token.attrGet('href') || '';
+                const reference = /^[a-z][a-z0-9+.-]*:|^#/i.test(href) ? undefined : parseFileReference(markdown.normalizeLinkText(href));
+                if (reference && isFile(reference.path)) {
+                    token.attrs = linkTokens(reference, [])[0].attrs;
+                }
+                linkDepth++;
+            } else if (token.type === 'link_close') {
+                linkDepth--;
+            }
+
+            const reference = linkDepth === 0 && token.type === 'code_inline' ? parseFileReference(token.content) : undefined;
+            if (reference && isFile(reference.path)) {
+                children.push(...linkTokens(reference, [token]));
+            } else if (linkDepth === 0 && token.type === 'text') {
+                let last = 0;
+                for (const match of token.content.matchAll(FILE_REFERENCE)) {
+                    const start = match.index!;
+                    const before = token.content[start - 1];
+                    const found = parseFileReference(match[0]);
+                    // Only whole words, so 'v1.2' inside 'v1.2.3' or a file inside a URL is left alone
+                    if (!found || (before !== undefined && !/[\s(\[{'"]/.test(before)) || !isFile(found.path)) {
+                        continue;
+                    }
+                    if (start > last) {
+                        children.push(textToken(token.content.slice(last, start)));
+                    }
+                    children.push(...linkTokens(found, [textToken(match[0])]));
+                    last = start + match[0].length;
+                }
+                children.push(last === 0 ? token : textToken(token.content.slice(last)));
+            } else {
+                children.push(token);
+            }
+        }
+        block.children = children;
+    }
+});
+
+export function renderMarkdown(text: string, options: RenderOptions = {}): string {
+    return markdown.render(text, { isFile: options.isFile });
+}
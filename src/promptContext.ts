@@ -0,0 +1,112 @@
+import type { SymbolMetric } from './symbolMetrics';
+
+// Per-file detail for the AI prompt, fitted into a token budget; kept free of vscode so it can be tested
+
+export interface FileContext {
+    // Workspace-relative, so files with the same name can be told apart
+    path: string;
+    language: string;
+    lines: number;
+    symbols: SymbolMetric[];
+    // File content, only given when code excerpts are wanted
+    content?: string;
+}
+
+export interface FittedContext {
+    text: string;
+    files: number;
+    omitted: number;
+    tokens: number;
+}
+
+// Rough count used by most providers' guidance: about four characters per token
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function formatOutline(symbols: SymbolMetric[], maxDepth = Infinity, depth = 0): string[] {
+    const lines: string[] = [];
+    for (const symbol of symbols) {
+        const complexity = symbol.complexity ? `, cognitive ${symbol.complexity.cognitive}` : '';
+        lines.push(`${'  '.repeat(depth)}- ${symbol.kind} ${symbol.name}: L${symbol.startLine + 1}-${symbol.endLine + 1} (${symbol.lines} lines${complexity})`);
+        if (depth + 1 < maxDepth) {
+            lines.push(...formatOutline(symbol.children, maxDepth, depth + 1));
+        }
+    }
+    return lines;
+}
+
+// The longest function or method, which is usually what needs splitting, cut to `maxLines`
+export function excerpt(file: FileContext, maxLines: number): string | undefined {
+    if (file.content === undefined || maxLines <= 0) {
+        return undefined;
+    }
+
+    const longest = (symbols: SymbolMetric[]): SymbolMetric | undefined => symbols
+        .flatMap(s => [s, longest(s.children)])
+        .filter((s): s is SymbolMetric => s !== undefined && s.kind !== 'class')
+        .sort((a, b) => b.lines - a.lines)[0];
+
+    const lines = file.content.split(/\r?\n/);
+    const target = longest(file.symbols);
+    const start = target ? target.startLine : 0;
+    const end = target ? target.endLine + 1 : lines.length;
+    const shown = lines.slice(start, Math.min(end, start + maxLines));
+    const cut = start + maxLines < end ? '\n…' : '';
+
+    return `\`\`\`\n${shown.join('\n')}${cut}\n\`\`\``;
+}
+
+/**
+ * Describes the largest files first and adds detail in passes while the budget lasts: a heading
+ * per file, then each file's outline (nested, or top level only when that is all that fits),
+ * then code excerpts. Files whose heading no longer fits are counted as omitted.
+ */
+export function fitFileContext(files: FileContext[], budgetTokens: number, excerptLines: number): FittedContext {
+    const sorted = [...files].sort((a, b) => b.lines - a.lines);
+    const parts: string[][] = [];
+    let used = 0;
+
+    const tryAdd = (text: string): boolean => {
+        const tokens = estimateTokens(text + '\n');
+        if (used + tokens > budgetTokens) {
+            return false;
+        }
+        used += tokens;
+        return true;
+    };
+
+    for (const file of sorted) {
+        const heading = `### ${file.path} (${file.language}, ${file.lines.toLocaleString('en-US')} lines)`;
+        if (!tryAdd(heading)) {
+            break;
+        }
+        parts.push([heading]);
+    }
+
+    parts.forEach((part, i) => {
+        const full = formatOutline(sorted[i].symbols).join('\n');
+        if (full && !tryAdd(full)) {
+            const topLevel = formatOutline(sorted[i].symbols, 1).join('\n');
+            if (topLevel && tryAdd(topLevel)) {
+                part.push(topLevel);
+            }
+        } else if (full) {
+            part.push(full);
+        }
+    });
+
+    parts.forEach((part, i) => {
+        const code = excerpt(sorted[i], excerptLines);
+        if (code && tryAdd(code)) {
+            part.push(code);
+        }
+    });
+
+    return {
+        text: parts.map(part => part.join('\n')).join('\n\n'),
+        files: parts.length,
+        omitted: sorted.length - parts.length,
+        tokens: used
+    };
+}
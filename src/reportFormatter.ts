@@ -0,0 +1,204 @@
+import { CountMode } from './lineCounter';
+
+export type ReportFormat = 'csv' | 'json' | 'markdown' | 'html';
+
+export interface ReportFileRow {
+    // Workspace-relative path with forward slashes; prefixed with the folder name in multi-root workspaces
+    path: string;
+    language: string;
+    lines: number;
+    code: number;
+    comment: number;
+    blank: number;
+    // Highest color threshold the file reaches (e.g. '>=1000'), empty when it reaches none
+    bucket: string;
+}
+
+export interface ReportData {
+    countMode: CountMode;
+    summary: {
+        totalFiles: number;
+        totalLines: number;
+        averageLines: number;
+        code: number;
+        comment: number;
+        blank: number;
+    };
+    languages: { language: string; files: number; lines: number }[];
+    files: ReportFileRow[];
+    largeFileThreshold: number;
+    largeFiles: { path: string; lines: number }[];
+    recommendations: string[];
+}
+
+export const reportExtensions: Record<ReportFormat, string> = {
+    csv: 'csv',
+    json: 'json',
+    markdown: 'md',
+    html: 'html'
+};
+
+// Code-point order, so the output does not depend on the machine's locale
+function compareText(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Puts every list in a fixed order so that reports of an unchanged workspace are identical
+ * and reports of different runs can be diffed.
+ */
+export function normalizeReport(data: ReportData): ReportData {
+    return {
+        ...data,
+        languages: [...data.languages].sort((a, b) => b.lines - a.lines || compareText(a.language, b.language)),
+        files: [...data.files].sort((a, b) => compareText(a.path, b.path)),
+        largeFiles: [...data.largeFiles].sort((a, b) => b.lines - a.lines || compareText(a.path, b.path))
+    };
+}
+
+export function formatReport(data: ReportData, format: ReportFormat): string {
+    const report = normalizeReport(data);
+    switch (format) {
+        case 'csv':
+            return formatCsv(report);
+        case 'json':
+            return JSON.stringify(report, null, 2) + '\n';
+        case 'markdown':
+            return formatMarkdown(report);
+        case 'html':
+            return formatHtml(report);
+    }
+}
+
+function summaryRows(report: ReportData): [string, number | string][] {
+    return [
+        ['Count mode', report.countMode],
+        ['Total files', report.summary.totalFiles],
+        ['Total lines', report.summary.totalLines],
+        ['Average lines per file', report.summary.averageLines],
+        ['Code lines', report.summary.code],
+        ['Comment lines', report.summary.comment],
+        ['Blank lines', report.summary.blank]
+    ];
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One table per section, separated by blank lines; the per-file table comes first
+function formatCsv(report: ReportData): string {
+    const row = (values: (string | number)[]) => values.map(csvField).join(',');
+    const lines: string[] = [
+        row(['Path', 'Language', 'Lines', 'Code', 'Comment', 'Blank', 'Bucket']),
+        ...report.files.map(f => row([f.path, f.language, f.lines, f.code, f.comment, f.blank, f.bucket])),
+        '',
+        row(['Summary', 'Value']),
+        ...summaryRows(report).map(row),
+        '',
+        row(['Language', 'Files', 'Lines']),
+        ...report.languages.map(l => row([l.language, l.files, l.lines])),
+        '',
+        row([`Large files (>=${report.largeFileThreshold})`, 'Lines']),
+        ...report.largeFiles.map(f => row([f.path, f.lines])),
+        '',
+        row(['Recommendation']),
+        ...report.recommendations.map(r => row([r]))
+    ];
+    return lines.join('\n') + '\n';
+}
+
+function markdownCell(value: string | number): string {
+    return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(headers: string[], rows: (string | number)[][]): string[] {
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(cells => `| ${cells.map(markdownCell).join(' | ')} |`)
+    ];
+}
+
+function formatMarkdown(report: ReportData): string {
+    const lines: string[] = [
+        '# Line Count Report',
+        '',
+        '## Summary',
+        '',
+        ...markdownTable(['Metric', 'Value'], summaryRows(report)),
+        '',
+        '## By Language',
+        '',
+        ...markdownTable(['Language', 'Files', 'Lines'], report.languages.map(l => [l.language, l.files, l.lines])),
+        '',
+        `## Large Files (>=${report.largeFileThreshold} lines)`,
+        ''
+    ];
+
+    if (report.largeFiles.length > 0) {
+        lines.push(...markdownTable(['Path', 'Lines'], report.largeFiles.map(f => [f.path, f.lines])));
+    } else {
+        lines.push('No large files found.');
+    }
+
+    lines.push('', '## Recommendations', '', ...report.recommendations.map(r => `- ${markdownCell(r)}`));
+    lines.push(
+        '',
+        '## Files',
+        '',
+        ...markdownTable(
+            ['Path', 'Language', 'Lines', 'Code', 'Comment', 'Blank', 'Bucket'],
+            report.files.map(f => [f.path, f.language, f.lines, f.code, f.comment, f.blank, f.bucket])
+        )
+    );
+    return lines.join('\n') + '\n';
+}
+
+function escapeHtml(value: string | number): string {
+    return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlTable(headers: string[], rows: (string | number)[][]): string {
+    const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+    const body = rows.map(cells => `<tr>${cells.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('\n');
+    return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+// Self-contained page without scripts, so it can be attached to tickets as is
+function formatHtml(report: ReportData): string {
+    const largeFiles = report.largeFiles.length > 0
+        ? htmlTable(['Path', 'Lines'], report.largeFiles.map(f => [f.path, f.lines]))
+        : '<p>No large files found.</p>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Line Count Report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+th { background: #f3f3f3; }
+</style>
+</head>
+<body>
+<h1>Line Count Report</h1>
+<h2>Summary</h2>
+${htmlTable(['Metric', 'Value'], summaryRows(report))}
+<h2>By Language</h2>
+${htmlTable(['Language', 'Files', 'Lines'], report.languages.map(l => [l.language, l.files, l.lines]))}
+<h2>Large Files (&gt;=${report.largeFileThreshold} lines)</h2>
+${largeFiles}
+<h2>Recommendations</h2>
+<ul>
+${report.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('\n')}
+</ul>
+<h2>Files</h2>
+${htmlTable(['Path', 'Language', 'Lines', 'Code', 'Comment', 'Blank', 'Bucket'], report.files.map(f => [f.path, f.language, f.lines, f.code, f.comment, f.blank, f.bucket]))}
+</body>
+</html>
+`;
+}
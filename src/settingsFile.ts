@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Reads `fileLineCounter.*` settings outside of VS Code: the defaults contributed in
+// package.json, overridden by the workspace's and each folder's .vscode/settings.json
+
+export type SettingsReader = <T>(key: string) => T | undefined;
+
+const SECTION = 'fileLineCounter.';
+
+// settings.json allows comments and trailing commas, which JSON.parse does not
+export function parseJsonc(text: string): unknown {
+    let result = '';
+    let i = 0;
+    // Position in `result` of a comma that only whitespace or comments have followed so far
+    let pendingComma = -1;
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === '"') {
+            const start = i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            result += text.slice(start, ++i);
+            pendingComma = -1;
+        } else if (text.startsWith('//', i)) {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+        } else {
+            if ((char === '}' || char === ']') && pendingComma !== -1) {
+                result = result.slice(0, pendingComma) + result.slice(pendingComma + 1);
+            }
+            if (char === ',') {
+                pendingComma = result.length;
+            } else if (!/\s/.test(char)) {
+                pendingComma = -1;
+            }
+            result += char;
+            i++;
+        }
+    }
+
+    return JSON.parse(result);
+}
+
+// Settings contributed in package.json: their defaults, and which ones a folder may override
+export interface ContributedSettings {
+    defaults: Record<string, unknown>;
+    resourceScoped: Set<string>;
+}
+
+export function readContributedSettings(packageJsonPath: string): ContributedSettings {
+    const contributed: ContributedSettings = { defaults: {}, resourceScoped: new Set() };
+    try {
+        const manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        const properties: Record<string, { default?: unknown; scope?: string }> = manifest.contributes?.configuration?.properties || {};
+        for (const [key, property] of Object.entries(properties)) {
+            if (!key.startsWith(SECTION)) {
+                continue;
+            }
+            const name = key.slice(SECTION.length);
+            if (property.default !== undefined) {
+                contributed.defaults[name] = property.default;
+            }
+            if (property.scope === 'resource') {
+                contributed.resourceScoped.add(name);
+            }
+        }
+    } catch (error) {
+        // No manifest: every setting falls back to undefined
+    }
+    return contributed;
+}
+
+function readSettingsFile(folderPath: string): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    const settingsPath = path.join(folderPath, '.vscode', 'settings.json');
+
+    if (fs.existsSync(settingsPath)) {
+        const parsed = parseJsonc(fs.readFileSync(settingsPath, 'utf-8')) as Record<string, unknown>;
+        for (const [key, value] of Object.entries(parsed || {})) {
+            if (key.startsWith(SECTION)) {
+                values[key.slice(SECTION.length)] = value;
+            }
+        }
+    }
+    return values;
+}
+
+// As in VS Code, window-scoped settings come from the workspace and only resource-scoped
+// ones can be overridden per folder
+export function readFolderSettings(folderPath: string, workspacePath: string, contributed: ContributedSettings): SettingsReader {
+    const workspaceValues = readSettingsFile(workspacePath);
+    const folderValues = folderPath === workspacePath ? workspaceValues : readSettingsFile(folderPath);
+
+    return <T>(key: string) => {
+        if (contributed.resourceScoped.has(key) && key in folderValues) {
+            return folderValues[key] as T;
+        }
+        return (key in workspaceValues ? workspaceValues[key] : contributed.defaults[key]) as T | undefined;
+    };
+}
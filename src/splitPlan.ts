@@ -0,0 +1,264 @@
+import { formatOutline } from './promptContext';
+import type { SymbolMetric } from './symbolMetrics';
+
+// Asking the AI how to split one file, and turning its answer into new file contents; kept free of vscode so it can be tested
+
+export interface SplitSource {
+    // Workspace-relative
+    path: string;
+    language: string;
+    content: string;
+    symbols: SymbolMetric[];
+}
+
+export interface SplitModule {
+    // Relative to the directory of the file being split, with forward slashes
+    path: string;
+    description: string;
+    // One-based, inclusive line ranges of the original file, moved verbatim
+    ranges: [number, number][];
+    // Code written above and below the moved lines
+    imports: string;
+    exports: string;
+}
+
+export interface SplitPlan {
+    summary: string;
+    modules: SplitModule[];
+    // Added to the original file after line `originalImportsAfterLine` (0 for the top)
+    originalImports: string;
+    originalImportsAfterLine: number;
+}
+
+export interface SplitResult {
+    original: string;
+    modules: { path: string; description: string; content: string }[];
+}
+
+/**
+ * A plan that cannot be applied; the message says what is wrong with it. The English `template`
+ * with `{0}`-style placeholders and its `args` are kept so the UI can show it translated.
+ */
+export class SplitPlanError extends Error {
+    readonly args: (string | number)[];
+
+    constructor(readonly template: string, ...args: (string | number)[]) {
+        super(template.replace(/\{(\d+)\}/g, (placeholder, index: string) => String(args[Number(index)] ?? placeholder)));
+        this.name = 'SplitPlanError';
+        this.args = args;
+    }
+}
+
+/**
+ * The whole file goes to the AI with line numbers; it answers with line ranges rather than code,
+ * so even files far larger than the provider's output limit can be split, and moved code is
+ * never rewritten on the way.
+ */
+export function buildSplitPrompt(source: SplitSource, replyLanguage?: string): string {
+    const lines = source.content.split(/\r?\n/);
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    const width = String(lines.length).length;
+    const numbered = lines.map((line, i) => `${String(i + 1).padStart(width)}| ${line}`).join('\n');
+    const outline = formatOutline(source.symbols);
+    const fileName = source.path.split('/').pop();
+
+    return `You are refactoring a large source file by splitting it into smaller modules. Group related code so each new module has one clear responsibility, and keep the original file as the entry point that imports what moved out of it.
+
+File: ${source.path} (${source.language}, ${lines.length} lines)
+${outline.length > 0 ? `\n## Outline\n${outline.join('\n')}\n` : ''}
+## Content (each line starts with its line number)
+\`\`\`
+${numbered}
+\`\`\`
+
+Code is moved verbatim by line number and cannot be edited, so pick ranges that cover whole declarations together with their comments. Reply with only a JSON object of this shape:
+
+{
+  "summary": "Why the file is split this way",
+  "modules": [
+    {
+      "path": "parser/tokens.ts",
+      "description": "What the module is responsible for",
+      "lines": [[12, 80], [95, 120]],
+      "imports": "Code placed above the moved lines, e.g. the imports they need",
+      "exports": "Code placed below the moved lines, e.g. exports for moved declarations that were not exported"
+    }
+  ],
+  "originalImports": "Code the original file now needs, e.g. imports of what moved",
+  "originalImportsAfterLine": 5
+}
+
+- "path" is relative to the directory of ${fileName}, uses forward slashes and does not contain "..".
+- "lines" are inclusive, 1-based ranges of the original file; ranges of different modules must not overlap.
+- "originalImports" is inserted after line "originalImportsAfterLine" of the original file; use 0 for the top.
+- Use empty strings where nothing is needed.${replyLanguage ? `\n- Write "summary" and "description" in ${replyLanguage}.` : ''}`;
+}
+
+// The AI's answer is untrusted JSON, so every field is checked before it is used
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLineNumber(value: unknown): value is number {
+    return Number.isInteger(value);
+}
+
+function requireString(value: unknown, field: string): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (typeof value !== 'string') {
+        throw new SplitPlanError('"{0}" must be a string', field);
+    }
+    return value;
+}
+
+function validatePath(modulePath: unknown, originalName: string): string {
+    if (typeof modulePath !== 'string' || modulePath.trim() === '') {
+        throw new SplitPlanError('Every module needs a "path"');
+    }
+    const normalized = modulePath.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+    if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized) || normalized.split('/').includes('..')) {
+        throw new SplitPlanError('Module path "{0}" must stay inside the directory of {1}', modulePath, originalName);
+    }
+    if (normalized === originalName || normalized.endsWith('/')) {
+        throw new SplitPlanError('Module path "{0}" is not a new file', modulePath);
+    }
+    return normalized;
+}
+
+/**
+ * Reads the plan from the AI's answer, which may wrap the JSON in a code fence or add prose
+ * around it, and checks it against the original file. Throws a SplitPlanError when the plan
+ * cannot be applied as given.
+ */
+export function parseSplitPlan(answer: string, originalPath: string, lineCount: number): SplitPlan {
+    const start = answer.indexOf('{');
+    const end = answer.lastIndexOf('}');
+    let raw: unknown;
+    try {
+        raw = start !== -1 && end > start ? JSON.parse(answer.slice(start, end + 1)) : undefined;
+    } catch (error) {
+        raw = undefined;
+    }
+    if (!isRecord(raw) || !Array.isArray(raw.modules)) {
+        throw new SplitPlanError('The answer does not contain a split plan in the requested JSON format');
+    }
+    const rawModules: unknown[] = raw.modules;
+    if (rawModules.length === 0) {
+        throw new SplitPlanError('The plan does not move anything');
+    }
+
+    const originalName = originalPath.replace(/\\/g, '/').split('/').pop() || originalPath;
+    const seenPaths = new Set<string>();
+    const taken: { range: [number, number]; path: string }[] = [];
+
+    const modules = rawModules.map((entry): SplitModule => {
+        const module = isRecord(entry) ? entry : {};
+        const modulePath = validatePath(module.path, originalName);
+        if (seenPaths.has(modulePath.toLowerCase())) {
+            throw new SplitPlanError('Module path "{0}" is used twice', modulePath);
+        }
+        seenPaths.add(modulePath.toLowerCase());
+
+        if (!Array.isArray(module.lines) || module.lines.length === 0) {
+            throw new SplitPlanError('Module "{0}" moves no lines', modulePath);
+        }
+        const ranges = module.lines.map((range: unknown): [number, number] => {
+            const [first, last]: unknown[] = Array.isArray(range) ? range : [];
+            if (!isLineNumber(first) || !isLineNumber(last) || first < 1 || last < first || last > lineCount) {
+                throw new SplitPlanError('Module "{0}" has an invalid line range {1} (the file has {2} lines)', modulePath, JSON.stringify(range), lineCount);
+            }
+            const overlap = taken.find(t => first <= t.range[1] && t.range[0] <= last);
+            if (overlap) {
+                throw new SplitPlanError('Lines {0}-{1} of "{2}" are also moved to "{3}"', first, last, modulePath, overlap.path);
+            }
+            taken.push({ range: [first, last], path: modulePath });
+            return [first, last];
+        });
+
+        return {
+            path: modulePath,
+            description: requireString(module.description, 'description'),
+            ranges: ranges.sort((a, b) => a[0] - b[0]),
+            imports: requireString(module.imports, 'imports'),
+            exports: requireString(module.exports, 'exports')
+        };
+    });
+
+    const afterLine = raw.originalImportsAfterLine ?? 0;
+    if (!isLineNumber(afterLine) || afterLine < 0 || afterLine > lineCount) {
+        throw new SplitPlanError('"originalImportsAfterLine" must be a line number between 0 and {0}', lineCount);
+    }
+
+    return {
+        summary: requireString(raw.summary, 'summary'),
+        modules,
+        originalImports: requireString(raw.originalImports, 'originalImports'),
+        originalImportsAfterLine: afterLine
+    };
+}
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Lines of a snippet from the AI, without the blank lines around it
+function snippetLines(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    while (lines.length > 0 && isBlank(lines[0])) {
+        lines.shift();
+    }
+    while (lines.length > 0 && isBlank(lines[lines.length - 1])) {
+        lines.pop();
+    }
+    return lines;
+}
+
+/**
+ * Moves the planned line ranges into their modules. Blank lines left doubled where code was
+ * removed are collapsed, and the original's line endings are kept.
+ */
+export function applySplitPlan(content: string, plan: SplitPlan): SplitResult {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const finalNewline = lines.length > 1 && lines[lines.length - 1] === '';
+    if (finalNewline) {
+        lines.pop();
+    }
+
+    const moved = new Array<boolean>(lines.length).fill(false);
+    const modules = plan.modules.map(module => {
+        const blocks = [snippetLines(module.imports)];
+        for (const [first, last] of module.ranges) {
+            blocks.push(snippetLines(lines.slice(first - 1, last).join('\n')));
+            moved.fill(true, first - 1, last);
+        }
+        blocks.push(snippetLines(module.exports));
+        return {
+            path: module.path,
+            description: module.description,
+            content: blocks.filter(block => block.length > 0).map(block => block.join(eol)).join(eol + eol) + eol
+        };
+    });
+
+    const imports = snippetLines(plan.originalImports);
+    const kept: string[] = plan.originalImportsAfterLine === 0 ? [...imports] : [];
+    let afterRemoval = false;
+    lines.forEach((line, i) => {
+        if (moved[i]) {
+            afterRemoval = true;
+        } else if (!(afterRemoval && isBlank(line) && (kept.length === 0 || isBlank(kept[kept.length - 1])))) {
+            kept.push(line);
+            afterRemoval = afterRemoval && isBlank(line);
+        }
+        if (i + 1 === plan.originalImportsAfterLine) {
+            kept.push(...imports);
+        }
+    });
+    while (kept.length > 0 && isBlank(kept[kept.length - 1])) {
+        kept.pop();
+    }
+
+    return { original: kept.join(eol) + (finalNewline ? eol : ''), modules };
+}
@@ -0,0 +1,258 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type SymbolMetricKind = 'function' | 'method' | 'constructor' | 'accessor' | 'class';
+
+export interface ComplexityMetrics {
+    // Independent paths through the function (McCabe)
+    cyclomatic: number;
+    // How hard the function is to follow; nested branches cost more (SonarSource)
+    cognitive: number;
+}
+
+export interface SymbolMetric {
+    name: string;
+    kind: SymbolMetricKind;
+    // Zero-based, inclusive
+    startLine: number;
+    endLine: number;
+    lines: number;
+    children: SymbolMetric[];
+    // Functions, methods and accessors of TS/JS files only
+    complexity?: ComplexityMetrics;
+}
+
+export interface FileComplexity {
+    functions: number;
+    cyclomatic: number;
+    cognitive: number;
+    // The function with the highest cognitive complexity, qualified as in flattenSymbols
+    worst?: { name: string; cognitive: number; cyclomatic: number };
+}
+
+const typeScriptExtensions = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+// Files the TypeScript compiler API can parse without a language server
+export function isTypeScriptLike(filePath: string): boolean {
+    return typeScriptExtensions.has(path.extname(filePath).toLowerCase());
+}
+
+function scriptKind(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.tsx':
+            return ts.ScriptKind.TSX;
+        case '.jsx':
+            return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs':
+            return ts.ScriptKind.JS;
+        default:
+            return ts.ScriptKind.TS;
+    }
+}
+
+// Name of a function expression or arrow function taken from what it is assigned to
+function assignedName(node: ts.Node): string | undefined {
+    const parent = node.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.initializer === node) {
+        return parent.name.getText();
+    }
+    if (ts.isBinaryExpression(parent) && parent.right === node && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+        return parent.left.getText();
+    }
+    if (ts.isExportAssignment(parent)) {
+        return 'default';
+    }
+    return undefined;
+}
+
+function describe(node: ts.Node): { name: string; kind: SymbolMetricKind } | undefined {
+    if (ts.isFunctionDeclaration(node)) {
+        return { name: node.name?.getText() || 'default', kind: 'function' };
+    }
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+        return { name: node.name?.getText() || assignedName(node) || '<class>', kind: 'class' };
+    }
+    if (ts.isMethodDeclaration(node)) {
+        return { name: node.name.getText(), kind: 'method' };
+    }
+    if (ts.isConstructorDeclaration(node)) {
+        return { name: 'constructor', kind: 'constructor' };
+    }
+    if (ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+        return { name: `${ts.isGetAccessorDeclaration(node) ? 'get' : 'set'} ${node.name.getText()}`, kind: 'accessor' };
+    }
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        // Anonymous callbacks are part of the function that contains them
+        const name = assignedName(node) || (ts.isFunctionExpression(node) ? node.name?.getText() : undefined);
+        return name ? { name, kind: 'function' } : undefined;
+    }
+    return undefined;
+}
+
+// Nodes measured as symbols of their own; their complexity is not added to the enclosing function
+function isOwnSymbol(node: ts.Node): boolean {
+    return describe(node) !== undefined && (!ts.isFunctionLike(node) || (node as ts.FunctionLikeDeclaration).body !== undefined);
+}
+
+function isLogicalOperator(node: ts.Node): node is ts.BinaryExpression {
+    if (!ts.isBinaryExpression(node)) {
+        return false;
+    }
+    switch (node.operatorToken.kind) {
+        case ts.SyntaxKind.AmpersandAmpersandToken:
+        case ts.SyntaxKind.BarBarToken:
+        case ts.SyntaxKind.QuestionQuestionToken:
+        case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+        case ts.SyntaxKind.BarBarEqualsToken:
+        case ts.SyntaxKind.QuestionQuestionEqualsToken:
+            return true;
+        default:
+            return false;
+    }
+}
+
+function isLoop(node: ts.Node): boolean {
+    return ts.isForStatement(node) || ts.isForInStatement(node) || ts.isForOfStatement(node)
+        || ts.isWhileStatement(node) || ts.isDoStatement(node);
+}
+
+function cyclomaticComplexity(body: ts.Node): number {
+    let complexity = 1;
+    const visit = (node: ts.Node) => {
+        if (isOwnSymbol(node)) {
+            return;
+        }
+        if (ts.isIfStatement(node) || ts.isConditionalExpression(node) || isLoop(node)
+            || ts.isCaseClause(node) || ts.isCatchClause(node) || isLogicalOperator(node)) {
+            complexity++;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(body);
+    return complexity;
+}
+
+/**
+ * Cognitive complexity as defined by SonarSource: every break in the linear flow costs 1, plus
+ * its nesting depth for branches and loops. A run of the same logical operator costs 1 in total.
+ */
+function cognitiveComplexity(body: ts.Node): number {
+    let complexity = 0;
+
+    const visit = (node: ts.Node, nesting: number): void => {
+        if (isOwnSymbol(node)) {
+            return;
+        }
+
+        if (ts.isIfStatement(node)) {
+            complexity += 1 + nesting;
+            visit(node.expression, nesting);
+            visit(node.thenStatement, nesting + 1);
+            // `else if` and `else` cost 1 but do not add nesting
+            let branch = node.elseStatement;
+            while (branch) {
+                complexity++;
+                if (ts.isIfStatement(branch)) {
+                    visit(branch.expression, nesting);
+                    visit(branch.thenStatement, nesting + 1);
+                    branch = branch.elseStatement;
+                } else {
+                    visit(branch, nesting + 1);
+                    branch = undefined;
+                }
+            }
+            return;
+        }
+
+        if (ts.isConditionalExpression(node) || ts.isSwitchStatement(node) || ts.isCatchClause(node) || isLoop(node)) {
+            complexity += 1 + nesting;
+            ts.forEachChild(node, child => visit(child, nesting + 1));
+            return;
+        }
+
+        // Anonymous callbacks belong to the enclosing function but nest their contents
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+            ts.forEachChild(node, child => visit(child, nesting + 1));
+            return;
+        }
+
+        if (isLogicalOperator(node)) {
+            let parent = node.parent;
+            while (ts.isParenthesizedExpression(parent)) {
+                parent = parent.parent;
+            }
+            if (!isLogicalOperator(parent) || parent.operatorToken.kind !== node.operatorToken.kind) {
+                complexity++;
+            }
+        } else if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+            complexity++;
+        }
+
+        ts.forEachChild(node, child => visit(child, nesting));
+    };
+
+    visit(body, 0);
+    return complexity;
+}
+
+/**
+ * Functions, methods and classes of a TS/JS file with their line spans, nested as in the source.
+ * Only function bodies are measured, so overload signatures and declarations are skipped.
+ */
+export function measureTypeScriptSymbols(filePath: string, content: string): SymbolMetric[] {
+    const source = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(filePath));
+    const lineOf = (position: number) => source.getLineAndCharacterOfPosition(position).line;
+
+    const visit = (node: ts.Node, into: SymbolMetric[]) => {
+        const info = describe(node);
+        const hasBody = !ts.isFunctionLike(node) || (node as ts.FunctionLikeDeclaration).body !== undefined;
+
+        if (info && hasBody) {
+            const startLine = lineOf(node.getStart(source));
+            const endLine = lineOf(node.getEnd());
+            const symbol: SymbolMetric = { ...info, startLine, endLine, lines: endLine - startLine + 1, children: [] };
+            const body = ts.isFunctionLike(node) ? (node as ts.FunctionLikeDeclaration).body : undefined;
+            if (body) {
+                symbol.complexity = { cyclomatic: cyclomaticComplexity(body), cognitive: cognitiveComplexity(body) };
+            }
+            into.push(symbol);
+            ts.forEachChild(node, child => visit(child, symbol.children));
+        } else {
+            ts.forEachChild(node, child => visit(child, into));
+        }
+    };
+
+    const symbols: SymbolMetric[] = [];
+    ts.forEachChild(source, child => visit(child, symbols));
+    return symbols;
+}
+
+// Every symbol with its containers in the name (e.g. 'Parser.parse'), depth first
+export function flattenSymbols(symbols: SymbolMetric[], prefix = ''): SymbolMetric[] {
+    const flat: SymbolMetric[] = [];
+    for (const symbol of symbols) {
+        const name = prefix ? `${prefix}.${symbol.name}` : symbol.name;
+        flat.push({ ...symbol, name }, ...flattenSymbols(symbol.children, name));
+    }
+    return flat;
+}
+
+// Complexity totals of a file; undefined when no function was measured
+export function summarizeComplexity(symbols: SymbolMetric[]): FileComplexity | undefined {
+    const measured = flattenSymbols(symbols).filter(symbol => symbol.complexity);
+    if (measured.length === 0) {
+        return undefined;
+    }
+
+    const summary: FileComplexity = { functions: measured.length, cyclomatic: 0, cognitive: 0 };
+    for (const { name, complexity } of measured) {
+        summary.cyclomatic += complexity!.cyclomatic;
+        summary.cognitive += complexity!.cognitive;
+        if (!summary.worst || complexity!.cognitive > summary.worst.cognitive) {
+            summary.worst = { name, ...complexity! };
+        }
+    }
+    return summary;
+}
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { createNdjsonParser, createSseParser, redactSecrets } from '../aiChat';
+
+suite('AI Chat Test Suite', () => {
+	test('Parses server-sent events split across chunks', () => {
+		const events: string[] = [];
+		const parse = createSseParser(data => events.push(data));
+
+		parse(': keep-alive\n\nevent: message\ndata: {"a"');
+		parse(':1}\r\n\r\ndata: first\ndata: second\n');
+		assert.deepStrictEqual(events, ['{"a":1}']);
+
+		parse('\ndata:[DONE]\n\n');
+		assert.deepStrictEqual(events, ['{"a":1}', 'first\nsecond', '[DONE]']);
+	});
+
+	test('Parses newline-delimited JSON split across chunks', () => {
+		const events: string[] = [];
+		const parse = createNdjsonParser(data => events.push(data));
+
+		parse('{"a":1}\n\n{"b"');
+		assert.deepStrictEqual(events, ['{"a":1}']);
+
+		parse(':2}\r\n');
+		assert.deepStrictEqual(events, ['{"a":1}', '{"b":2}']);
+	});
+
+	test('Redacts API keys from error messages', () => {
+		assert.strictEqual(
+			redactSecrets('Request to https://x.test/v1?alt=sse&key=AIzaSECRET failed: invalid key AIzaSECRET', ['AIzaSECRET']),
+			'Request to https://x.test/v1?alt=sse&key=*** failed: invalid key ***'
+		);
+		assert.strictEqual(redactSecrets('Authorization: Bearer sk-other.123 rejected', []), 'Authorization: Bearer *** rejected');
+		assert.strictEqual(redactSecrets('Status: 500', ['']), 'Status: 500');
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { compareStats, snapshotStats, StatsSnapshot } from '../aiHistory';
+import { CodeStats, FileInfo } from '../workspaceStats';
+
+suite('AI History Test Suite', () => {
+	const snapshot = (totalLines: number, languages: [string, number][], largeFiles: [string, number][], duplicatedLines = 0): StatsSnapshot => ({
+		totalFiles: 10,
+		totalLines,
+		averageLines: Math.round(totalLines / 10),
+		breakdown: { code: totalLines, comment: 0, blank: 0, total: totalLines },
+		languages: languages.map(([language, lines]) => ({ language, files: 1, lines })),
+		largeFiles: largeFiles.map(([path, lines]) => ({ path, lines })),
+		duplicatedLines
+	});
+
+	test('Keeps a compact snapshot with relative paths', () => {
+		const file: FileInfo = { path: '/ws/src/big.ts', name: 'big.ts', lineCount: 1200, counts: { code: 1000, comment: 100, blank: 100, total: 1200 }, language: 'TypeScript' };
+		const stats: CodeStats = {
+			totalFiles: 1,
+			totalLines: 1200,
+			averageLines: 1200,
+			largeFiles: [file],
+			overLimit: [file],
+			budgetViolations: [],
+			breakdown: file.counts,
+			languages: [{ language: 'TypeScript', files: 1, lines: 1200 }]
+		};
+
+		assert.deepStrictEqual(snapshotStats(stats, 40, p => p.replace('/ws/', '')), {
+			totalFiles: 1,
+			totalLines: 1200,
+			averageLines: 1200,
+			breakdown: file.counts,
+			languages: [{ language: 'TypeScript', files: 1, lines: 1200 }],
+			largeFiles: [{ path: 'src/big.ts', lines: 1200 }],
+			duplicatedLines: 40
+		});
+	});
+
+	test('Compares the metrics of two snapshots', () => {
+		const comparison = compareStats(snapshot(5000, [], [], 120), snapshot(4200, [], [], 30));
+
+		assert.deepStrictEqual(comparison.metrics.find(m => m.metric === 'totalLines'), { metric: 'totalLines', before: 5000, after: 4200 });
+		assert.deepStrictEqual(comparison.metrics.find(m => m.metric === 'duplicatedLines'), { metric: 'duplicatedLines', before: 120, after: 30 });
+		assert.deepStrictEqual(comparison.metrics.find(m => m.metric === 'totalFiles'), { metric: 'totalFiles', before: 10, after: 10 });
+	});
+
+	test('Lists changed languages and large files, biggest change first', () => {
+		const comparison = compareStats(
+			snapshot(5000, [['TypeScript', 4000], ['CSS', 1000]], [['src/a.ts', 2500], ['src/b.ts', 1100]]),
+			snapshot(5000, [['TypeScript', 3800], ['CSS', 1000], ['Python', 200]], [['src/b.ts', 1300], ['src/c.ts', 1050]])
+		);
+
+		assert.deepStrictEqual(comparison.languages, [
+			{ language: 'TypeScript', before: 4000, after: 3800 },
+			{ language: 'Python', before: 0, after: 200 }
+		]);
+		assert.deepStrictEqual(comparison.largeFiles, [
+			{ path: 'src/a.ts', before: 2500, after: 0 },
+			{ path: 'src/c.ts', before: 0, after: 1050 },
+			{ path: 'src/b.ts', before: 1100, after: 1300 }
+		]);
+	});
+});
@@ -0,0 +1,232 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AiRequestError, ChatRequest, streamChat } from '../aiChat';
+import { aiProviders } from '../aiProviders';
+
+interface StubRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: any;
+}
+
+type StubHandler = (request: StubRequest, response: http.ServerResponse) => void;
+
+// A local HTTP server standing in for the provider; handlers are used in turn, the last one repeatedly
+async function startStub(...handlers: StubHandler[]) {
+	const requests: StubRequest[] = [];
+	const server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', chunk => body += chunk);
+		req.on('end', () => {
+			const request = { url: req.url || '', headers: req.headers, body: body ? JSON.parse(body) : undefined };
+			requests.push(request);
+			handlers[Math.min(requests.length, handlers.length) - 1](request, res);
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		baseUrl: `http://127.0.0.1:${port}`,
+		requests,
+		close: () => new Promise<void>(resolve => {
+			server.closeAllConnections();
+			server.close(() => resolve());
+		})
+	};
+}
+
+const sse = (events: unknown[]): StubHandler => (_request, response) => {
+	response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+	for (const event of events) {
+		response.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+	}
+	response.end();
+};
+
+const status = (code: number, headers: http.OutgoingHttpHeaders = {}): StubHandler => (_request, response) => {
+	response.writeHead(code, headers);
+	response.end(`{"error":"status ${code}"}`);
+};
+
+const chat = (provider: string, baseUrl: string, options: Partial<ChatRequest> = {}): ChatRequest => ({
+	provider,
+	apiKey: 'secret-key',
+	model: 'test-model',
+	baseUrl,
+	maxOutputTokens: 100,
+	messages: [{ role: 'user', content: 'Hi' }],
+	retryDelayMs: 1,
+	...options
+});
+
+async function expectError(promise: Promise<unknown>): Promise<Error> {
+	try {
+		await promise;
+	} catch (error) {
+		return error as Error;
+	}
+	throw new assert.AssertionError({ message: 'Expected the request to fail' });
+}
+
+suite('AI Providers Test Suite', () => {
+	test('Streams Gemini answers with the key in a header', async () => {
+		const stub = await startStub(sse([
+			{ candidates: [{ content: { parts: [{ text: 'Hel' }] } }] },
+			{ candidates: [{ content: { parts: [{ text: 'lo' }] } }] }
+		]));
+		try {
+			const pieces: string[] = [];
+			assert.strictEqual(await streamChat(chat('Gemini', stub.baseUrl), text => pieces.push(text)), 'Hello');
+			assert.deepStrictEqual(pieces, ['Hel', 'lo']);
+
+			const [request] = stub.requests;
+			assert.strictEqual(request.url, '/models/test-model:streamGenerateContent?alt=sse');
+			assert.strictEqual(request.headers['x-goog-api-key'], 'secret-key');
+			assert.deepStrictEqual(request.body.contents, [{ role: 'user', parts: [{ text: 'Hi' }] }]);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Streams Anthropic answers', async () => {
+		const stub = await startStub(sse([
+			{ type: 'message_start' },
+			{ type: 'content_block_delta', delta: { text: 'Hello' } },
+			{ type: 'message_stop' }
+		]));
+		try {
+			assert.strictEqual(await streamChat(chat('Anthropic', stub.baseUrl), () => { }), 'Hello');
+			assert.strictEqual(stub.requests[0].url, '/messages');
+			assert.strictEqual(stub.requests[0].headers['x-api-key'], 'secret-key');
+			assert.strictEqual(stub.requests[0].body.max_tokens, 100);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Streams OpenAI-compatible answers, with or without a key', async () => {
+		const stub = await startStub(sse([{ choices: [{ delta: { content: 'Hello' } }] }, '[DONE]']));
+		try {
+			assert.strictEqual(await streamChat(chat('OpenAI', stub.baseUrl), () => { }), 'Hello');
+			assert.strictEqual(stub.requests[0].url, '/chat/completions');
+			assert.strictEqual(stub.requests[0].headers['authorization'], 'Bearer secret-key');
+
+			assert.strictEqual(await streamChat(chat('Custom', stub.baseUrl + '/v1/chat/completions', { apiKey: undefined }), () => { }), 'Hello');
+			assert.strictEqual(stub.requests[1].url, '/v1/chat/completions');
+			assert.strictEqual(stub.requests[1].headers['authorization'], undefined);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Streams Ollama answers as newline-delimited JSON', async () => {
+		const stub = await startStub((_request, response) => {
+			response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+			response.write('{"message":{"role":"assistant","content":"Hel"},"done":false}\n{"message":{"role":"assistant",');
+			response.end('"content":"lo"},"done":false}\n{"done":true}');
+		});
+		try {
+			assert.strictEqual(await streamChat(chat('Ollama', stub.baseUrl, { apiKey: undefined }), () => { }), 'Hello');
+			assert.strictEqual(stub.requests[0].url, '/api/chat');
+			assert.deepStrictEqual(stub.requests[0].body.options, { num_predict: 100 });
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Requires a URL for the Custom provider', () => {
+		assert.throws(() => aiProviders['Custom'].buildRequest(chat('Custom', '')), /URL is required/);
+	});
+
+	test('Reports errors sent inside the stream', async () => {
+		const stub = await startStub(sse([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }]));
+		try {
+			const error = await expectError(streamChat(chat('Anthropic', stub.baseUrl), () => { }));
+			assert.ok(error instanceof AiRequestError);
+			assert.strictEqual(error.kind, 'stream');
+			assert.match(error.message, /Overloaded/);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Retries server errors, then succeeds', async () => {
+		const stub = await startStub(status(503), status(500), sse([{ choices: [{ delta: { content: 'Hello' } }] }]));
+		try {
+			assert.strictEqual(await streamChat(chat('OpenAI', stub.baseUrl), () => { }), 'Hello');
+			assert.strictEqual(stub.requests.length, 3);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Gives up after the last retry', async () => {
+		const stub = await startStub(status(429, { 'Retry-After': '0' }));
+		try {
+			const error = await expectError(streamChat(chat('OpenAI', stub.baseUrl, { maxRetries: 2 }), () => { }));
+			assert.ok(error instanceof AiRequestError);
+			assert.strictEqual(error.kind, 'rateLimit');
+			assert.strictEqual(error.status, 429);
+			assert.strictEqual(error.retryAfterMs, 0);
+			assert.strictEqual(stub.requests.length, 3);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Does not retry a rejected key, and redacts it', async () => {
+		const stub = await startStub((_request, response) => {
+			response.writeHead(401);
+			response.end('Invalid key secret-key');
+		});
+		try {
+			const error = await expectError(streamChat(chat('OpenAI', stub.baseUrl), () => { }));
+			assert.ok(error instanceof AiRequestError);
+			assert.strictEqual(error.kind, 'auth');
+			assert.strictEqual(stub.requests.length, 1);
+			assert.ok(!error.message.includes('secret-key'));
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Times out when the server stops sending', async () => {
+		const stub = await startStub((_request, response) => {
+			response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+			response.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+			// Never ends; the stub is closed by the test
+		});
+		try {
+			const pieces: string[] = [];
+			const error = await expectError(streamChat(chat('OpenAI', stub.baseUrl, { timeoutMs: 100 }), text => pieces.push(text)));
+			assert.ok(error instanceof AiRequestError);
+			assert.strictEqual(error.kind, 'timeout');
+			assert.deepStrictEqual(pieces, ['Hel']);
+			assert.strictEqual(stub.requests.length, 1);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('Reports a server that is not running', async () => {
+		const stub = await startStub(status(200));
+		await stub.close();
+
+		const error = await expectError(streamChat(chat('Ollama', stub.baseUrl, { apiKey: undefined }), () => { }));
+		assert.ok(error instanceof AiRequestError);
+		assert.strictEqual(error.kind, 'network');
+		assert.match(error.message, /ECONNREFUSED/);
+	});
+
+	test('Stops when cancelled', async () => {
+		const controller = new AbortController();
+		const stub = await startStub(() => controller.abort());
+		try {
+			const error = await expectError(streamChat(chat('OpenAI', stub.baseUrl, { signal: controller.signal }), () => { }));
+			assert.strictEqual(error.name, 'AbortError');
+		} finally {
+			await stub.close();
+		}
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { computeDeltas, formatDelta, netDelta } from '../baseline';
+
+suite('Baseline Test Suite', () => {
+	const root = path.join(path.sep, 'workspace');
+	const src = path.join(root, 'src');
+
+	test('Attributes file deltas to every ancestor directory', () => {
+		const current = new Map([
+			[path.join(src, 'a.ts'), 150],
+			[path.join(src, 'b.ts'), 60],
+			[path.join(src, 'new.ts'), 20]
+		]);
+		const baseline = new Map([
+			[path.join(src, 'a.ts'), 100],
+			[path.join(src, 'b.ts'), 80],
+			[path.join(src, 'deleted.ts'), 10]
+		]);
+
+		const deltas = computeDeltas(current, baseline, [root]);
+
+		assert.strictEqual(deltas.files.get(path.join(src, 'a.ts')), 50);
+		assert.strictEqual(deltas.files.get(path.join(src, 'b.ts')), -20);
+		assert.strictEqual(deltas.files.get(path.join(src, 'new.ts')), 20);
+		assert.strictEqual(deltas.files.get(path.join(src, 'deleted.ts')), -10);
+		assert.deepStrictEqual(deltas.directories.get(src), { added: 70, removed: 30 });
+		assert.deepStrictEqual(deltas.directories.get(root), { added: 70, removed: 30 });
+	});
+
+	test('Skips unchanged files and files outside the roots', () => {
+		const current = new Map([[path.join(src, 'same.ts'), 10], [path.join(path.sep, 'elsewhere', 'x.ts'), 5]]);
+		const baseline = new Map([[path.join(src, 'same.ts'), 10]]);
+
+		const deltas = computeDeltas(current, baseline, [root]);
+
+		assert.strictEqual(deltas.files.size, 0);
+		assert.strictEqual(deltas.directories.size, 0);
+	});
+
+	test('Formats only the sides that changed', () => {
+		assert.strictEqual(formatDelta({ added: 120, removed: 40 }), '+120 / −40');
+		assert.strictEqual(formatDelta({ added: 0, removed: 40 }), '−40');
+		assert.strictEqual(formatDelta({ added: 0, removed: 0 }), '');
+		assert.strictEqual(formatDelta(undefined), '');
+	});
+
+	test('Formats a file\'s net change like a directory delta', () => {
+		assert.strictEqual(formatDelta(netDelta(80)), '+80');
+		assert.strictEqual(formatDelta(netDelta(-40)), '−40');
+		assert.strictEqual(formatDelta(netDelta(undefined)), '');
+	});
+});
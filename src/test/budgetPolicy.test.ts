@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetPolicy } from '../budgetPolicy';
+
+suite('Budget Policy Test Suite', () => {
+	let root: string;
+
+	suiteSetup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'line-counter-budget-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	const policy = () => new BudgetPolicy(root, [
+		{ files: 'src/**/*.ts', warning: 300, error: 400 },
+		{ files: ['*.test.ts', '*.spec.ts'], warning: 600, error: 800 },
+		{ files: 'src/generated/', exempt: true }
+	]);
+	const file = (relativePath: string) => path.join(root, ...relativePath.split('/'));
+
+	test('Last matching entry wins', () => {
+		assert.strictEqual(policy().match(file('src/app/main.ts'))?.error, 400);
+		assert.strictEqual(policy().match(file('src/app/main.test.ts'))?.error, 800);
+		assert.strictEqual(policy().match(file('src/generated/api.ts'))?.exempt, true);
+		assert.strictEqual(policy().match(file('scripts/build.js')), undefined);
+	});
+
+	test('Reports warnings and errors above the limits', () => {
+		assert.strictEqual(policy().check(file('src/main.ts'), 300), undefined);
+		const warning = policy().check(file('src/main.ts'), 350);
+		assert.strictEqual(warning?.severity, 'warning');
+		assert.strictEqual(warning?.limit, 300);
+		assert.strictEqual(warning?.policyPath, path.join(root, '.linecounterrc.json'));
+		assert.strictEqual(policy().check(file('src/main.ts'), 401)?.severity, 'error');
+		assert.strictEqual(policy().check(file('src/generated/api.ts'), 5000), undefined);
+	});
+
+	test('Large files use the budget, or the global threshold when no entry matches', () => {
+		assert.strictEqual(policy().isLarge(file('src/main.ts'), 350, 1000), true);
+		assert.strictEqual(policy().isLarge(file('src/main.test.ts'), 350, 1000), false);
+		assert.strictEqual(policy().isLarge(file('src/generated/api.ts'), 5000, 1000), false);
+		assert.strictEqual(policy().isLarge(file('scripts/build.js'), 1000, 1000), true);
+	});
+
+	test('Loads the policy file and reports invalid JSON', () => {
+		assert.strictEqual(BudgetPolicy.load(root).isEmpty, true);
+
+		fs.writeFileSync(path.join(root, '.linecounterrc.json'), '{ "budgets": [{ "files": "*.ts", "error": 10 }] }');
+		assert.strictEqual(BudgetPolicy.load(root).check(file('a.ts'), 11)?.severity, 'error');
+
+		fs.writeFileSync(path.join(root, '.linecounterrc.json'), '{ "budgets": [');
+		assert.ok(BudgetPolicy.load(root).error);
+	});
+});
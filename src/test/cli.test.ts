@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeFolder, parseArgs } from '../cli';
+import { parseJsonc, readContributedSettings } from '../settingsFile';
+
+suite('CLI Test Suite', () => {
+	let root: string;
+	const settings = readContributedSettings(path.join(__dirname, '..', '..', 'package.json'));
+
+	suiteSetup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'line-counter-cli-'));
+		fs.mkdirSync(path.join(root, '.vscode'));
+		fs.mkdirSync(path.join(root, 'src'));
+		fs.mkdirSync(path.join(root, 'build'));
+		fs.writeFileSync(path.join(root, '.vscode', 'settings.json'), [
+			'// Project settings',
+			'{',
+			'    "fileLineCounter.countMode": "code", /* code lines only */',
+			'    "fileLineCounter.maxFileLines": 3,',
+			'}'
+		].join('\n'));
+		fs.writeFileSync(path.join(root, '.gitignore'), 'build/\n.vscode/\n');
+		fs.writeFileSync(path.join(root, 'src', 'small.ts'), '// comment\nconst a = 1;\n');
+		fs.writeFileSync(path.join(root, 'src', 'big.ts'), 'a();\nb();\n\nc();\nd();\n');
+		fs.writeFileSync(path.join(root, 'build', 'out.js'), 'a();\nb();\nc();\nd();\ne();\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Parses settings files with comments and trailing commas', () => {
+		assert.deepStrictEqual(parseJsonc('{\n  // note\n  "a": "http://x", /* b */\n  "c": [1, 2,],\n}'), { a: 'http://x', c: [1, 2] });
+		assert.deepStrictEqual(parseJsonc('{ "a": "x,}", "b": ["y,]", // z\n ], }'), { a: 'x,}', b: ['y,]'] });
+	});
+
+	test('Reads defaults and scopes from the extension manifest', () => {
+		assert.strictEqual(settings.defaults.summaryThreshold, 1000);
+		assert.deepStrictEqual(settings.defaults.ignoreFiles, ['.gitignore', '.vscodeignore', '.linecounterignore']);
+		assert.ok(settings.resourceScoped.has('ignoreFiles'));
+		assert.ok(!settings.resourceScoped.has('countMode'));
+	});
+
+	test('Uses folder settings and ignore files like the extension', async () => {
+		const report = await analyzeFolder(root, root, settings);
+
+		assert.strictEqual(report.countMode, 'code');
+		assert.strictEqual(report.stats.totalFiles, 2);
+		assert.strictEqual(report.stats.totalLines, 5);
+		assert.deepStrictEqual(report.stats.overLimit.map(f => f.name), ['big.ts']);
+	});
+
+	test('Command-line limit overrides the setting', async () => {
+		const report = await analyzeFolder(root, root, settings, 0);
+		assert.strictEqual(report.stats.overLimit.length, 0);
+	});
+
+	test('Folders in a larger workspace only override resource-scoped settings', async () => {
+		const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'line-counter-workspace-'));
+		try {
+			const report = await analyzeFolder(root, workspace, settings);
+
+			// countMode and maxFileLines are window-scoped; the folder's .gitignore still applies
+			assert.strictEqual(report.countMode, 'total');
+			assert.strictEqual(report.maxFileLines, 0);
+			assert.strictEqual(report.stats.totalFiles, 2);
+		} finally {
+			fs.rmSync(workspace, { recursive: true, force: true });
+		}
+	});
+
+	test('Rejects malformed arguments', () => {
+		assert.throws(() => parseArgs(['--max-lines', 'ten']));
+		assert.throws(() => parseArgs(['--unknown']));
+		assert.deepStrictEqual(parseArgs(['--json', 'a']).folders, [path.resolve('a')]);
+	});
+});
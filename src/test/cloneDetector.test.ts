@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { findClones, summarizeClones, tokenize } from '../cloneDetector';
+
+suite('Clone Detector Test Suite', () => {
+	const jsComments = { line: ['//'], block: [['/*', '*/']] as [string, string][], strings: ['"', "'", '`'] };
+
+	const block = [
+		'function total(items) {',
+		'\tlet sum = 0;',
+		'\tfor (const item of items) {',
+		'\t\tsum += item.price * item.quantity;',
+		'\t}',
+		'\treturn sum;',
+		'}'
+	];
+
+	test('Tokenizes code without whitespace and comments', () => {
+		const tokens = tokenize('const a = "x // y"; // note\n/* block\n */ b++', jsComments);
+
+		assert.deepStrictEqual(tokens.map(t => t.value), ['const', 'a', '=', '"x // y"', ';', 'b', '+', '+']);
+		assert.deepStrictEqual(tokens.map(t => t.line), [0, 0, 0, 0, 0, 2, 2, 2]);
+	});
+
+	test('Finds a block copied into another file despite formatting and comments', () => {
+		const original = ['// helpers', ...block, ''].join('\n');
+		const copy = ['import x from "y";', '', ...block.map(l => '  ' + l.trim() + '  // copied'), 'export {};'].join('\n');
+
+		const clones = findClones([
+			{ filePath: 'a.js', tokens: tokenize(original, jsComments) },
+			{ filePath: 'b.js', tokens: tokenize(copy, jsComments) }
+		], { minTokens: 20, minLines: 3 });
+
+		assert.strictEqual(clones.length, 1);
+		assert.deepStrictEqual(clones[0].original, { filePath: 'a.js', startLine: 1, endLine: 7 });
+		assert.deepStrictEqual(clones[0].duplicate, { filePath: 'b.js', startLine: 2, endLine: 8 });
+		assert.strictEqual(clones[0].lines, 7);
+	});
+
+	test('Finds repeats within one file and respects the minimum lengths', () => {
+		const content = [...block, '', ...block].join('\n');
+		const files = [{ filePath: 'a.js', tokens: tokenize(content, jsComments) }];
+
+		const clones = findClones(files, { minTokens: 20, minLines: 3 });
+		assert.strictEqual(clones.length, 1);
+		assert.deepStrictEqual(clones[0].duplicate, { filePath: 'a.js', startLine: 8, endLine: 14 });
+
+		assert.strictEqual(findClones(files, { minTokens: 200, minLines: 3 }).length, 0);
+		assert.strictEqual(findClones(files, { minTokens: 20, minLines: 10 }).length, 0);
+	});
+
+	test('Summarizes duplicated lines and files', () => {
+		const tokens = tokenize(block.join('\n'), jsComments);
+		const clones = findClones([
+			{ filePath: 'a.js', tokens },
+			{ filePath: 'b.js', tokens },
+			{ filePath: 'c.js', tokens }
+		], { minTokens: 20, minLines: 3 });
+
+		assert.deepStrictEqual(summarizeClones(clones), { clones: 2, duplicatedLines: 14, files: 3 });
+		assert.deepStrictEqual(clones.map(c => c.original.filePath), ['a.js', 'a.js']);
+	});
+});
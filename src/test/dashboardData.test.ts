@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildFolderNode, buildHistogram, buildWorkspaceNode } from '../dashboardData';
+
+suite('Dashboard Data Test Suite', () => {
+	const root = path.join(path.sep, 'workspace');
+
+	test('Nests files under their directories with recursive totals', () => {
+		const node = buildFolderNode('workspace', root, [
+			{ path: path.join(root, 'src', 'a.ts'), lines: 100 },
+			{ path: path.join(root, 'src', 'lib', 'b.ts'), lines: 300 },
+			{ path: path.join(root, 'README.md'), lines: 20 },
+			{ path: path.join(path.sep, 'elsewhere', 'c.ts'), lines: 5 }
+		]);
+
+		assert.strictEqual(node.lines, 420);
+		assert.strictEqual(node.files, 3);
+		assert.deepStrictEqual(node.children!.map(c => c.name), ['src', 'README.md']);
+
+		const src = node.children![0];
+		assert.strictEqual(src.lines, 400);
+		assert.deepStrictEqual(src.children!.map(c => [c.name, c.lines]), [['lib', 300], ['a.ts', 100]]);
+	});
+
+	test('Adds a workspace node only for several folders', () => {
+		const a = buildFolderNode('a', path.join(root, 'a'), [{ path: path.join(root, 'a', 'x.ts'), lines: 10 }]);
+		const b = buildFolderNode('b', path.join(root, 'b'), [{ path: path.join(root, 'b', 'y.ts'), lines: 30 }]);
+
+		assert.strictEqual(buildWorkspaceNode('ws', [a]), a);
+		const workspace = buildWorkspaceNode('ws', [a, b]);
+		assert.strictEqual(workspace.lines, 40);
+		assert.deepStrictEqual(workspace.children!.map(c => c.name), ['b', 'a']);
+	});
+
+	test('Groups file sizes into histogram buckets', () => {
+		const histogram = buildHistogram([0, 49, 50, 250, 999, 1000, 5000]);
+		assert.deepStrictEqual(histogram.map(b => b.files), [2, 1, 0, 1, 1, 1, 1]);
+		assert.strictEqual(histogram[0].label, '0–49');
+		assert.strictEqual(histogram[histogram.length - 1].label, '2000+');
+	});
+});
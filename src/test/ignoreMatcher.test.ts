@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreMatcher } from '../ignoreMatcher';
+
+suite('Ignore Matcher Test Suite', () => {
+	let root: string;
+
+	suiteSetup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'line-counter-'));
+		fs.mkdirSync(path.join(root, 'src', 'generated'), { recursive: true });
+		fs.writeFileSync(path.join(root, '.gitignore'), [
+			'# build output',
+			'dist/',
+			'*.log',
+			'!keep.log',
+			'/root-only.txt',
+			'file[0-9].ts',
+			'docs/**/*.png'
+		].join('\n'));
+		fs.writeFileSync(path.join(root, 'src', '.gitignore'), 'generated/\n!important.log\n');
+		fs.writeFileSync(path.join(root, '.linecounterinclude'), 'src/\n!src/legacy/\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	const options = { ignoreListActive: true, ignoreFiles: ['.gitignore'], whitelistActive: false, includeFiles: [] };
+
+	test('Follows gitignore anchoring, negation and character classes', () => {
+		const matcher = new IgnoreMatcher(root, options);
+		const p = (...segments: string[]) => path.join(root, ...segments);
+
+		assert.strictEqual(matcher.isIgnored(p('dist'), true), true);
+		assert.strictEqual(matcher.isIgnored(p('dist', 'index.js'), false), true);
+		assert.strictEqual(matcher.isIgnored(p('src', 'dist'), false), false, 'dir-only pattern must not match files');
+		assert.strictEqual(matcher.isIgnored(p('a', 'b', 'debug.log'), false), true);
+		assert.strictEqual(matcher.isIgnored(p('keep.log'), false), false);
+		assert.strictEqual(matcher.isIgnored(p('root-only.txt'), false), true);
+		assert.strictEqual(matcher.isIgnored(p('src', 'root-only.txt'), false), false);
+		assert.strictEqual(matcher.isIgnored(p('file1.ts'), false), true);
+		assert.strictEqual(matcher.isIgnored(p('fileA.ts'), false), false);
+		assert.strictEqual(matcher.isIgnored(p('docs', 'a', 'b', 'img.png'), false), true);
+	});
+
+	test('Reads ignore files in subdirectories', () => {
+		const matcher = new IgnoreMatcher(root, options);
+
+		assert.strictEqual(matcher.isIgnored(path.join(root, 'src', 'generated', 'api.ts'), false), true);
+		assert.strictEqual(matcher.isIgnored(path.join(root, 'src', 'important.log'), false), false);
+		assert.strictEqual(matcher.isIgnored(path.join(root, 'other', 'important.log'), false), true);
+	});
+
+	test('Applies include lists with negation in whitelist mode', () => {
+		const matcher = new IgnoreMatcher(root, { ...options, whitelistActive: true, includeFiles: ['.linecounterinclude'] });
+
+		assert.strictEqual(matcher.isIncluded(path.join(root, 'src', 'index.ts'), false), true);
+		assert.strictEqual(matcher.isIncluded(path.join(root, 'src', 'legacy', 'old.ts'), false), false);
+		assert.strictEqual(matcher.isIncluded(path.join(root, 'README.md'), false), false);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+suite('Localization Bundles Test Suite', () => {
+	const root = path.join(__dirname, '..', '..');
+	const readJson = (...segments: string[]): Record<string, string> => JSON.parse(fs.readFileSync(path.join(root, ...segments), 'utf8'));
+	const placeholders = (text: string) => (text.match(/\{\d+\}/g) || []).sort();
+	const translations = ['he', 'ar'];
+
+	test('Every translated message in the source is in the English bundle', () => {
+		const bundle = readJson('l10n', 'bundle.l10n.json');
+		const sourceDir = path.join(root, 'src');
+		const missing: string[] = [];
+		for (const file of fs.readdirSync(sourceDir).filter(name => name.endsWith('.ts'))) {
+			const source = fs.readFileSync(path.join(sourceDir, file), 'utf8');
+			// `text` is t() or its untranslated twin where output may be exported; split plan errors are translated when shown
+			for (const match of source.matchAll(/\b(?:t|text|SplitPlanError)\(\s*'((?:[^'\\]|\\.)*)'/g)) {
+				const message = match[1].replace(/\\'/g, '\'');
+				if (!(message in bundle)) {
+					missing.push(`${file}: ${message}`);
+				}
+			}
+		}
+		assert.deepStrictEqual(missing, []);
+	});
+
+	test('Translated bundles have every message with the same placeholders', () => {
+		const bundle = readJson('l10n', 'bundle.l10n.json');
+		for (const language of translations) {
+			const translated = readJson('l10n', `bundle.l10n.${language}.json`);
+			assert.deepStrictEqual(Object.keys(translated).sort(), Object.keys(bundle).sort(), language);
+			for (const message of Object.keys(bundle)) {
+				assert.deepStrictEqual(placeholders(translated[message]), placeholders(message), `${language}: ${message}`);
+			}
+		}
+	});
+
+	test('Every package.json string has an entry in each package.nls file', () => {
+		const manifest = fs.readFileSync(path.join(root, 'package.json'), 'utf8');
+		const keys = [...manifest.matchAll(/"%([\w.-]+)%"/g)].map(match => match[1]).sort();
+		assert.ok(keys.length > 0);
+		for (const file of ['package.nls.json', ...translations.map(language => `package.nls.${language}.json`)]) {
+			assert.deepStrictEqual(Object.keys(readJson(file)).sort(), keys, file);
+		}
+	});
+});
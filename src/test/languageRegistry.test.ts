@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LanguageRegistry } from '../languageRegistry';
+
+suite('Language Registry Test Suite', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'language-registry-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const script = (name: string, content: string) => {
+		const filePath = path.join(dir, name);
+		fs.writeFileSync(filePath, content);
+		return filePath;
+	};
+
+	test('Detects extension-less scripts by their shebang', () => {
+		const registry = new LanguageRegistry();
+
+		assert.strictEqual(registry.detect(script('build', '#!/usr/bin/env python3\nprint(1)\n'))?.name, 'Python');
+		assert.strictEqual(registry.detect(script('deploy', '#!/bin/bash -e\necho hi\n'))?.name, 'Shell');
+		assert.strictEqual(registry.detect(script('serve', '#!/usr/bin/env -S node --no-warnings\n'))?.name, 'JavaScript');
+		assert.strictEqual(registry.detect(script('notes', 'just text\n')), undefined);
+		assert.strictEqual(registry.detect(script('tool', '#!/usr/bin/env unknown-interpreter\n')), undefined);
+	});
+
+	test('Matches custom extensions with or without the leading dot', () => {
+		const registry = new LanguageRegistry([
+			{ name: 'Bicep', extensions: ['bicep'] },
+			{ name: 'Jsonnet', extensions: ['.JSONNET', ' libsonnet '] }
+		]);
+
+		assert.strictEqual(registry.detect('/repo/main.bicep')?.name, 'Bicep');
+		assert.strictEqual(registry.detect('/repo/config.jsonnet')?.name, 'Jsonnet');
+		assert.strictEqual(registry.detect('/repo/lib.libsonnet')?.name, 'Jsonnet');
+	});
+
+	test('User languages replace built-ins and custom shebangs are matched', () => {
+		const registry = new LanguageRegistry([
+			{ name: 'TypeScript', extensions: ['.ts'], comments: { line: ['#'] } },
+			{ name: 'Awk', extensions: ['awk'], shebangs: ['awk'] }
+		]);
+
+		assert.deepStrictEqual(registry.detect('/repo/a.ts')?.comments, { line: ['#'] });
+		// The built-in TypeScript is gone entirely, including its other extensions
+		assert.strictEqual(registry.detect('/repo/a.tsx'), undefined);
+		assert.strictEqual(registry.detect(script('count', '#!/usr/bin/awk -f\n'))?.name, 'Awk');
+	});
+
+	test('Tells code languages from data and markup', () => {
+		const registry = new LanguageRegistry([{ name: 'Bicep', extensions: ['bicep'] }, { name: 'CSV', extensions: ['csv'], code: false }]);
+
+		assert.ok(registry.isCode('TypeScript'));
+		assert.ok(registry.isCode('Bicep'));
+		assert.ok(!registry.isCode('JSON'));
+		assert.ok(!registry.isCode('Markdown'));
+		assert.ok(!registry.isCode('CSV'));
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeContent, countLineBreakdown } from '../lineCounter';
+import { LanguageRegistry } from '../languageRegistry';
+
+suite('Line Counter Test Suite', () => {
+	const registry = new LanguageRegistry();
+	const ts = registry.detect('file.ts')?.comments;
+
+	test('Splits code, comment and blank lines', () => {
+		const content = [
+			'/**',
+			' * License header',
+			' */',
+			'',
+			'const a = 1; // trailing comment',
+			'// full line comment',
+			'',
+			'function f() {}',
+			''
+		].join('\n');
+
+		assert.deepStrictEqual(analyzeContent(content, ts), { code: 2, comment: 4, blank: 2, total: 8 });
+	});
+
+	test('Ignores comment markers inside strings', () => {
+		const content = [
+			'const url = "http://example.com";',
+			"const glob = '/* not a comment */';",
+			'const tpl = `',
+			'// still inside the template',
+			'`;'
+		].join('\n');
+
+		assert.deepStrictEqual(analyzeContent(content, ts), { code: 5, comment: 0, blank: 0, total: 5 });
+	});
+
+	test('Handles nested block comments when the language allows them', () => {
+		const content = [
+			'/* outer',
+			'/* inner */',
+			'still comment */',
+			'fn main() {}'
+		].join('\n');
+
+		assert.deepStrictEqual(analyzeContent(content, registry.detect('main.rs')?.comments), { code: 1, comment: 3, blank: 0, total: 4 });
+		// Without nesting the first '*/' closes the comment
+		assert.deepStrictEqual(analyzeContent(content, ts), { code: 2, comment: 2, blank: 0, total: 4 });
+	});
+
+	test('Counts every non-blank line as code for unknown languages', () => {
+		assert.deepStrictEqual(analyzeContent('a\n\n# b\n', undefined), { code: 2, comment: 0, blank: 1, total: 3 });
+		assert.deepStrictEqual(analyzeContent('', undefined), { code: 0, comment: 0, blank: 0, total: 0 });
+	});
+
+	test('Detects languages by extension, file name and user definitions', () => {
+		assert.strictEqual(registry.detect('/repo/api/schema.proto')?.name, 'Protocol Buffers');
+		assert.strictEqual(registry.detect('/repo/infra/main.tf')?.name, 'Terraform');
+		assert.strictEqual(registry.detect('/repo/lib/util.cts')?.name, 'TypeScript');
+		assert.strictEqual(registry.detect('/repo/Dockerfile')?.name, 'Dockerfile');
+		assert.strictEqual(registry.detect('/repo/image.png'), undefined);
+
+		const custom = new LanguageRegistry([{ name: 'Bicep', extensions: ['.bicep'] }]);
+		assert.strictEqual(custom.detect('main.bicep')?.name, 'Bicep');
+	});
+
+	test('Streams files and marks binary and large files', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'line-counter-'));
+		try {
+			const source = path.join(dir, 'a.ts');
+			fs.writeFileSync(source, '// header\r\nconst a = 1;\r\n\r\nconst b = `\r\n// in string\r\n`;');
+			assert.deepStrictEqual(await countLineBreakdown(source, ts), { code: 4, comment: 1, blank: 1, total: 6, kind: 'text' });
+
+			const binary = path.join(dir, 'data.txt');
+			fs.writeFileSync(binary, Buffer.from([0x61, 0x0a, 0x00, 0x62]));
+			assert.strictEqual((await countLineBreakdown(binary)).kind, 'binary');
+			assert.strictEqual((await countLineBreakdown(path.join(dir, 'logo.png'))).kind, 'binary');
+
+			const large = path.join(dir, 'big.log');
+			fs.writeFileSync(large, 'line\n'.repeat(1000) + 'last');
+			assert.deepStrictEqual(await countLineBreakdown(large, undefined, 100), { code: 0, comment: 0, blank: 0, total: 1001, kind: 'large' });
+
+			assert.strictEqual((await countLineBreakdown(path.join(dir, 'missing.ts'))).kind, 'unreadable');
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
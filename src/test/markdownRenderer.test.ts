@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { parseFileReference, renderMarkdown } from '../markdownRenderer';
+
+suite('Markdown Renderer Test Suite', () => {
+	const isFile = (path: string) => ['src/parser.ts', 'README.md'].includes(path);
+
+	test('Renders tables, nested lists and fenced code', () => {
+		const html = renderMarkdown([
+			'| File | Lines |',
+			'| :--- | ---: |',
+			'| a.ts | 10 |',
+			'',
+			'1. First',
+			'   - nested',
+			'2. Second',
+			'',
+			'```ts',
+			'const a = 1;',
+			'```'
+		].join('\n'));
+
+		assert.ok(html.includes('<th class="align-left">File</th>'));
+		assert.ok(html.includes('<td class="align-right">10</td>'));
+		assert.ok(!html.includes('style='));
+		assert.ok(/<ol>\s*<li>First\s*<ul>\s*<li>nested<\/li>\s*<\/ul>\s*<\/li>\s*<li>Second<\/li>\s*<\/ol>/.test(html));
+		assert.ok(html.includes('<pre><code class="language-ts"><span class="hljs-keyword">const</span>'));
+	});
+
+	test('Escapes HTML and refuses script links', () => {
+		const html = renderMarkdown('<img src=x onerror="alert(1)"> [click](javascript:alert(1))\n\n```\n<script>\n```');
+
+		assert.ok(!html.includes('<img'));
+		assert.ok(!html.includes('<script>'));
+		assert.ok(!html.includes('href="javascript:'));
+		assert.ok(html.includes('&lt;script&gt;'));
+	});
+
+	test('Parses file references with optional line numbers', () => {
+		assert.deepStrictEqual(parseFileReference('src/parser.ts'), { path: 'src/parser.ts', line: undefined });
+		assert.deepStrictEqual(parseFileReference('src/parser.ts:12-30'), { path: 'src/parser.ts', line: 12 });
+		assert.deepStrictEqual(parseFileReference('src/parser.ts#L7'), { path: 'src/parser.ts', line: 7 });
+		assert.strictEqual(parseFileReference('parse()'), undefined);
+		assert.strictEqual(parseFileReference('split the file'), undefined);
+	});
+
+	test('Links mentioned workspace files', () => {
+		const html = renderMarkdown('See `src/parser.ts:12`, README.md and [the parser](src/parser.ts#L3), not src/other.ts or https://x.test/README.md.', { isFile });
+
+		assert.ok(html.includes('<a href="#" class="file-link" data-file="src/parser.ts" data-line="12"><code>src/parser.ts:12</code></a>'));
+		assert.ok(html.includes('<a href="#" class="file-link" data-file="README.md">README.md</a>'));
+		assert.ok(html.includes('<a href="#" class="file-link" data-file="src/parser.ts" data-line="3">the parser</a>'));
+		assert.ok(!html.includes('data-file="src/other.ts"'));
+		assert.ok(html.includes('<a href="https://x.test/README.md">https://x.test/README.md</a>'));
+	});
+});
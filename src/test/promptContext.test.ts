@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { estimateTokens, excerpt, FileContext, fitFileContext, formatOutline } from '../promptContext';
+import { SymbolMetric } from '../symbolMetrics';
+
+suite('Prompt Context Test Suite', () => {
+	const method: SymbolMetric = { name: 'parse', kind: 'method', startLine: 2, endLine: 5, lines: 4, children: [], complexity: { cyclomatic: 3, cognitive: 2 } };
+	const parser: SymbolMetric = { name: 'Parser', kind: 'class', startLine: 0, endLine: 6, lines: 7, children: [method] };
+
+	const file = (path: string, lines: number, symbols: SymbolMetric[] = [], content?: string): FileContext =>
+		({ path, language: 'TypeScript', lines, symbols, content });
+
+	test('Formats a nested outline with line ranges and complexity', () => {
+		assert.deepStrictEqual(formatOutline([parser]), [
+			'- class Parser: L1-7 (7 lines)',
+			'  - method parse: L3-6 (4 lines, cognitive 2)'
+		]);
+		assert.deepStrictEqual(formatOutline([parser], 1), ['- class Parser: L1-7 (7 lines)']);
+	});
+
+	test('Excerpts the longest function, cut to the line limit', () => {
+		const content = ['class Parser {', '', '  parse() {', '    a();', '    b();', '  }', '}'].join('\n');
+
+		assert.strictEqual(excerpt(file('a.ts', 7, [parser], content), 10), '```\n  parse() {\n    a();\n    b();\n  }\n```');
+		assert.strictEqual(excerpt(file('a.ts', 7, [parser], content), 2), '```\n  parse() {\n    a();\n…\n```');
+		assert.strictEqual(excerpt(file('a.ts', 7, [parser]), 10), undefined);
+	});
+
+	test('Describes the largest files first and keeps paths apart', () => {
+		const fitted = fitFileContext([file('src/b/index.ts', 300), file('src/a/index.ts', 900, [parser])], 1000, 0);
+
+		assert.strictEqual(fitted.files, 2);
+		assert.strictEqual(fitted.omitted, 0);
+		assert.strictEqual(fitted.text, [
+			'### src/a/index.ts (TypeScript, 900 lines)',
+			'- class Parser: L1-7 (7 lines)',
+			'  - method parse: L3-6 (4 lines, cognitive 2)',
+			'',
+			'### src/b/index.ts (TypeScript, 300 lines)'
+		].join('\n'));
+	});
+
+	test('Drops detail, then files, to stay within the budget', () => {
+		const files = [file('big.ts', 900, [parser]), file('small.ts', 300)];
+		const headings = estimateTokens('### big.ts (TypeScript, 900 lines)\n') + estimateTokens('### small.ts (TypeScript, 300 lines)\n');
+		const topLevel = estimateTokens('- class Parser: L1-7 (7 lines)\n');
+
+		const outlineCut = fitFileContext(files, headings + topLevel, 0);
+		assert.strictEqual(outlineCut.text, '### big.ts (TypeScript, 900 lines)\n- class Parser: L1-7 (7 lines)\n\n### small.ts (TypeScript, 300 lines)');
+		assert.ok(outlineCut.tokens <= headings + topLevel);
+
+		const filesCut = fitFileContext(files, headings - 1, 0);
+		assert.strictEqual(filesCut.files, 1);
+		assert.strictEqual(filesCut.omitted, 1);
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { formatReport, ReportData } from '../reportFormatter';
+
+suite('Report Formatter Test Suite', () => {
+	const data: ReportData = {
+		countMode: 'total',
+		summary: { totalFiles: 3, totalLines: 1600, averageLines: 533, code: 1200, comment: 250, blank: 150 },
+		languages: [
+			{ language: 'TypeScript', files: 2, lines: 1500 },
+			{ language: 'Python', files: 1, lines: 100 }
+		],
+		files: [
+			{ path: 'src/z.ts', language: 'TypeScript', lines: 1200, code: 900, comment: 200, blank: 100, bucket: '>=1000' },
+			{ path: 'scripts/a, b.py', language: 'Python', lines: 100, code: 80, comment: 10, blank: 10, bucket: '' },
+			{ path: 'src/a.ts', language: 'TypeScript', lines: 300, code: 220, comment: 40, blank: 40, bucket: '' }
+		],
+		largeFileThreshold: 1000,
+		largeFiles: [{ path: 'src/z.ts', lines: 1200 }],
+		recommendations: ['Consider splitting <z.ts> | now']
+	};
+
+	test('CSV lists files by path and quotes special characters', () => {
+		const lines = formatReport(data, 'csv').split('\n');
+		assert.strictEqual(lines[0], 'Path,Language,Lines,Code,Comment,Blank,Bucket');
+		assert.strictEqual(lines[1], '"scripts/a, b.py",Python,100,80,10,10,');
+		assert.strictEqual(lines[2], 'src/a.ts,TypeScript,300,220,40,40,');
+		assert.strictEqual(lines[3], 'src/z.ts,TypeScript,1200,900,200,100,>=1000');
+		assert.ok(lines.includes('Total lines,1600'));
+	});
+
+	test('Output does not depend on input order', () => {
+		const shuffled = { ...data, files: [...data.files].reverse(), languages: [...data.languages].reverse() };
+		for (const format of ['csv', 'json', 'markdown', 'html'] as const) {
+			assert.strictEqual(formatReport(shuffled, format), formatReport(data, format));
+		}
+	});
+
+	test('Markdown and HTML escape their special characters', () => {
+		assert.ok(formatReport(data, 'markdown').includes('- Consider splitting <z.ts> \\| now'));
+		assert.ok(formatReport(data, 'html').includes('<li>Consider splitting &lt;z.ts&gt; | now</li>'));
+	});
+
+	test('JSON round-trips the normalized data', () => {
+		const parsed = JSON.parse(formatReport(data, 'json')) as ReportData;
+		assert.deepStrictEqual(parsed.files.map(f => f.path), ['scripts/a, b.py', 'src/a.ts', 'src/z.ts']);
+		assert.strictEqual(parsed.summary.totalLines, 1600);
+	});
+});
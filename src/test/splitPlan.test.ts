@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { applySplitPlan, buildSplitPrompt, parseSplitPlan, SplitPlan, SplitPlanError } from '../splitPlan';
+
+suite('Split Plan Test Suite', () => {
+	const content = [
+		"import * as fs from 'fs';",
+		'',
+		'// Splits text into words',
+		'function tokenize(text: string) {',
+		'    return text.split(/\\s+/);',
+		'}',
+		'',
+		'function count(text: string) {',
+		'    return tokenize(text).length;',
+		'}',
+		'',
+		'export function main() {',
+		"    return count(fs.readFileSync('a', 'utf-8'));",
+		'}',
+		''
+	].join('\n');
+
+	const plan = (overrides: object = {}) => JSON.stringify({
+		summary: 'Move the word helpers out',
+		modules: [{
+			path: 'text/words.ts',
+			description: 'Word helpers',
+			lines: [[8, 10], [3, 6]],
+			imports: '',
+			exports: 'export { tokenize, count };'
+		}],
+		originalImports: "import { count } from './text/words';",
+		originalImportsAfterLine: 1,
+		...overrides
+	});
+
+	test('Numbers every line of the file in the prompt', () => {
+		const prompt = buildSplitPrompt({ path: 'src/words.ts', language: 'typescript', content: 'a\nb\n', symbols: [] }, 'Hebrew');
+
+		assert.ok(prompt.includes('File: src/words.ts (typescript, 2 lines)'));
+		assert.ok(prompt.includes('1| a\n2| b'));
+		assert.ok(prompt.includes('relative to the directory of words.ts'));
+		assert.ok(prompt.includes('in Hebrew'));
+	});
+
+	test('Reads a plan wrapped in a code fence', () => {
+		const parsed = parseSplitPlan('Here is the plan:\n```json\n' + plan() + '\n```', '/src/words.ts', 14);
+
+		assert.strictEqual(parsed.summary, 'Move the word helpers out');
+		assert.deepStrictEqual(parsed.modules[0].ranges, [[3, 6], [8, 10]]);
+		assert.strictEqual(parsed.originalImportsAfterLine, 1);
+	});
+
+	test('Rejects plans that cannot be applied', () => {
+		const module = (fields: object) => plan({ modules: [{ path: 'a.ts', lines: [[1, 2]], ...fields }] });
+		const rejects = (answer: string, message: RegExp) =>
+			assert.throws(() => parseSplitPlan(answer, '/src/words.ts', 14), (error: Error) => error instanceof SplitPlanError && message.test(error.message));
+
+		rejects('I would split it by feature.', /requested JSON format/);
+		rejects(module({ path: '../outside.ts' }), /must stay inside/);
+		rejects(module({ path: 'C:/outside.ts' }), /must stay inside/);
+		rejects(module({ path: './words.ts' }), /not a new file/);
+		rejects(module({ lines: [[10, 20]] }), /invalid line range/);
+		rejects(module({ lines: [] }), /moves no lines/);
+		rejects(plan({ modules: [{ path: 'a.ts', lines: [[1, 5]] }, { path: 'b.ts', lines: [[5, 6]] }] }), /also moved to "a.ts"/);
+		rejects(plan({ modules: [{ path: 'a.ts', lines: [[1, 2]] }, { path: 'A.ts', lines: [[3, 4]] }] }), /used twice/);
+		rejects(plan({ originalImportsAfterLine: 15 }), /between 0 and 14/);
+	});
+
+	test('Moves the planned lines verbatim and tidies the gaps', () => {
+		const parsed: SplitPlan = parseSplitPlan(plan(), '/src/words.ts', 14);
+		const result = applySplitPlan(content, parsed);
+
+		assert.deepStrictEqual(result.modules, [{
+			path: 'text/words.ts',
+			description: 'Word helpers',
+			content: [
+				'// Splits text into words',
+				'function tokenize(text: string) {',
+				'    return text.split(/\\s+/);',
+				'}',
+				'',
+				'function count(text: string) {',
+				'    return tokenize(text).length;',
+				'}',
+				'',
+				'export { tokenize, count };',
+				''
+			].join('\n')
+		}]);
+		assert.strictEqual(result.original, [
+			"import * as fs from 'fs';",
+			"import { count } from './text/words';",
+			'',
+			'export function main() {',
+			"    return count(fs.readFileSync('a', 'utf-8'));",
+			'}',
+			''
+		].join('\n'));
+	});
+
+	test('Keeps Windows line endings', () => {
+		const parsed = parseSplitPlan(plan({ originalImports: '', originalImportsAfterLine: 0 }), '/src/words.ts', 14);
+		const result = applySplitPlan(content.replace(/\n/g, '\r\n'), parsed);
+
+		assert.ok(result.original.startsWith("import * as fs from 'fs';\r\n\r\nexport function main() {\r\n"));
+		assert.ok(result.modules[0].content.endsWith('}\r\n\r\nexport { tokenize, count };\r\n'));
+	});
+});
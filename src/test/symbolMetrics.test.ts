@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { flattenSymbols, isTypeScriptLike, measureTypeScriptSymbols, summarizeComplexity } from '../symbolMetrics';
+
+suite('Symbol Metrics Test Suite', () => {
+	const source = [
+		'export class Parser {',
+		'\tconstructor(private text: string) { }',
+		'',
+		'\tparse(): string[] {',
+		'\t\treturn this.text',
+		'\t\t\t.split(",")',
+		'\t\t\t.map(part => part.trim());',
+		'\t}',
+		'}',
+		'',
+		'export function format(values: string[]): string;',
+		'export function format(values: string[]): string {',
+		'\treturn values.join(", ");',
+		'}',
+		'',
+		'const helper = () => {',
+		'\treturn 1;',
+		'};'
+	].join('\n');
+
+	test('Measures classes, methods and named functions', () => {
+		const symbols = measureTypeScriptSymbols('parser.ts', source);
+
+		assert.deepStrictEqual(symbols.map(s => [s.name, s.kind, s.startLine, s.lines]), [
+			['Parser', 'class', 0, 9],
+			['format', 'function', 11, 3],
+			['helper', 'function', 15, 3]
+		]);
+		// Anonymous callbacks stay part of parse
+		assert.deepStrictEqual(symbols[0].children.map(s => [s.name, s.kind, s.lines]), [
+			['constructor', 'constructor', 1],
+			['parse', 'method', 5]
+		]);
+	});
+
+	test('Qualifies flattened names with their containers', () => {
+		const flat = flattenSymbols(measureTypeScriptSymbols('parser.ts', source));
+
+		assert.deepStrictEqual(flat.map(s => s.name), ['Parser', 'Parser.constructor', 'Parser.parse', 'format', 'helper']);
+	});
+
+	test('Measures cyclomatic and cognitive complexity of functions', () => {
+		const complex = [
+			'function classify(values: number[], strict: boolean) {',
+			'\tfor (const value of values) {',                  // cognitive +1
+			'\t\tif (value > 0 && value < 10 && !strict) {',    // +2 (nested), +1 for the && run
+			'\t\t\tcontinue;',
+			'\t\t} else if (value < 0 || strict) {',            // +1, +1 for ||
+			'\t\t\tvalues.forEach(v => v ? log(v) : undefined);', // ternary nested in loop, if and callback: +4
+			'\t\t} else {',                                      // +1
+			'\t\t\tfunction inner() { return value ? 1 : 2; }',  // measured on its own
+			'\t\t}',
+			'\t}',
+			'}'
+		].join('\n');
+
+		const [classify] = measureTypeScriptSymbols('classify.ts', complex);
+
+		assert.deepStrictEqual(classify.complexity, { cyclomatic: 8, cognitive: 11 });
+		assert.deepStrictEqual(classify.children[0].complexity, { cyclomatic: 2, cognitive: 1 });
+		assert.deepStrictEqual(measureTypeScriptSymbols('parser.ts', source)[0].complexity, undefined);
+	});
+
+	test('Summarizes a file by its most complex function', () => {
+		const summary = summarizeComplexity(measureTypeScriptSymbols('parser.ts', source));
+
+		assert.deepStrictEqual(summary, {
+			functions: 4,
+			cyclomatic: 4,
+			cognitive: 0,
+			worst: { name: 'Parser.constructor', cognitive: 0, cyclomatic: 1 }
+		});
+		assert.strictEqual(summarizeComplexity([]), undefined);
+	});
+
+	test('Recognises TypeScript and JavaScript files', () => {
+		assert.strictEqual(isTypeScriptLike('a.tsx'), true);
+		assert.strictEqual(isTypeScriptLike('b.MJS'), true);
+		assert.strictEqual(isTypeScriptLike('c.py'), false);
+	});
+});
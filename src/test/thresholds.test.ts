@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { parseThresholds } from '../thresholds';
+
+suite('Thresholds Test Suite', () => {
+	test('Reads the object form, highest threshold first', () => {
+		assert.deepStrictEqual(parseThresholds({ '500': 'charts.yellow', '1000': 'charts.red', 'many': 'charts.blue' }), [
+			{ lines: 1000, color: 'charts.red' },
+			{ lines: 500, color: 'charts.yellow' }
+		]);
+	});
+
+	test('Reads the array form and drops malformed entries', () => {
+		assert.deepStrictEqual(parseThresholds([{ lines: 200, color: 'charts.green' }, { lines: '300' }, null, { lines: 800, color: 'charts.red' }]), [
+			{ lines: 800, color: 'charts.red' },
+			{ lines: 200, color: 'charts.green' }
+		]);
+	});
+
+	test('Has no thresholds when the setting is missing', () => {
+		assert.deepStrictEqual(parseThresholds(undefined), []);
+		assert.deepStrictEqual(parseThresholds('1000'), []);
+	});
+});
@@ -0,0 +1,27 @@
+// Line count levels from `fileLineCounter.thresholds`, shared by the tree, decorations and dashboard
+
+export interface ThresholdConfig {
+    lines: number;
+    // Theme color ID, e.g. charts.red
+    color: string;
+}
+
+/**
+ * Accepts both the object form (`{ "1000": "charts.red" }`) and the older array of
+ * `{ lines, color }`, dropping malformed entries. Sorted by lines descending, so the first
+ * threshold a count reaches is the one that applies.
+ */
+export function parseThresholds(value: unknown): ThresholdConfig[] {
+    let thresholds: ThresholdConfig[] = [];
+
+    if (Array.isArray(value)) {
+        thresholds = value.filter(t => t && typeof t.lines === 'number' && typeof t.color === 'string');
+    } else if (typeof value === 'object' && value !== null) {
+        thresholds = Object.entries(value).map(([linesStr, color]) => ({
+            lines: parseInt(linesStr, 10),
+            color: color as string
+        })).filter(t => !isNaN(t.lines) && typeof t.color === 'string');
+    }
+
+    return [...thresholds].sort((a, b) => b.lines - a.lines);
+}
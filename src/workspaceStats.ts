@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CountMode, LineCounts, mapWithConcurrency, selectCount } from './lineCounter';
+import { LanguageDefinition, LanguageRegistry } from './languageRegistry';
+import { IgnoreMatcher } from './ignoreMatcher';
+import { BudgetPolicy, BudgetViolation } from './budgetPolicy';
+
+// Scanning and statistics shared by the Line Count view and the command-line tool,
+// so both always agree on which files are counted and how they add up
+
+export interface FileInfo {
+    path: string;
+    name: string;
+    lineCount: number;
+    counts: LineCounts;
+    language: string;
+}
+
+export interface LanguageStats {
+    language: string;
+    files: number;
+    lines: number;
+}
+
+export interface CodeStats {
+    totalFiles: number;
+    totalLines: number;
+    averageLines: number;
+    largeFiles: FileInfo[];
+    // Files above the `maxFileLines` limit, which fail the command-line check
+    overLimit: FileInfo[];
+    // Files over their budget in a folder's .linecounterrc.json, largest first
+    budgetViolations: BudgetViolation[];
+    breakdown: LineCounts;
+    languages: LanguageStats[];
+}
+
+export interface CodeFile {
+    path: string;
+    language: LanguageDefinition;
+}
+
+export function toFileInfo(filePath: string, language: LanguageDefinition, counts: LineCounts, mode: CountMode): FileInfo {
+    return {
+        path: filePath,
+        name: path.basename(filePath),
+        lineCount: selectCount(counts, mode),
+        counts,
+        language: language.name
+    };
+}
+
+// Binary and unreadable files have no meaningful line count
+export function isCounted(file: FileInfo): boolean {
+    return file.counts.kind !== 'binary' && file.counts.kind !== 'unreadable';
+}
+
+export function buildStats(allFiles: FileInfo[], largeFileThreshold: number, maxFileLines = 0, policies: BudgetPolicy[] = []): CodeStats {
+    const files = allFiles.filter(isCounted);
+    const breakdown: LineCounts = { code: 0, comment: 0, blank: 0, total: 0 };
+    const languageTotals = new Map<string, LanguageStats>();
+    let totalLines = 0;
+
+    for (const file of files) {
+        totalLines += file.lineCount;
+        breakdown.code += file.counts.code;
+        breakdown.comment += file.counts.comment;
+        breakdown.blank += file.counts.blank;
+        breakdown.total += file.counts.total;
+
+        const languageStats = languageTotals.get(file.language) || { language: file.language, files: 0, lines: 0 };
+        languageStats.files++;
+        languageStats.lines += file.lineCount;
+        languageTotals.set(file.language, languageStats);
+    }
+
+    const largeFiles = files
+        .filter(f => {
+            const policy = policies.find(p => p.contains(f.path));
+            return policy ? policy.isLarge(f.path, f.lineCount, largeFileThreshold) : f.lineCount >= largeFileThreshold;
+        })
+        .sort((a, b) => b.lineCount - a.lineCount);
+
+    const budgetViolations: BudgetViolation[] = [];
+    for (const file of files) {
+        const violation = policies.find(p => p.contains(file.path))?.check(file.path, file.lineCount);
+        if (violation) {
+            budgetViolations.push(violation);
+        }
+    }
+    budgetViolations.sort((a, b) => b.lines - a.lines);
+
+    return {
+        totalFiles: files.length,
+        totalLines,
+        averageLines: files.length > 0 ? Math.round(totalLines / files.length) : 0,
+        largeFiles,
+        overLimit: filesOverLimit(files, maxFileLines),
+        budgetViolations,
+        breakdown,
+        languages: [...languageTotals.values()].sort((a, b) => b.lines - a.lines)
+    };
+}
+
+// Counted files above the `maxFileLines` limit, largest first; a limit of 0 disables the check
+export function filesOverLimit(files: FileInfo[], maxLines: number): FileInfo[] {
+    if (maxLines <= 0) {
+        return [];
+    }
+    return files
+        .filter(f => isCounted(f) && f.lineCount > maxLines)
+        .sort((a, b) => b.lineCount - a.lineCount);
+}
+
+// Directories read in parallel while scanning
+const SCAN_CONCURRENCY = 8;
+
+// Every file of a recognised language that the ignore/include rules keep
+export async function scanCodeFiles(folderPath: string, matcher: IgnoreMatcher, registry: LanguageRegistry): Promise<CodeFile[]> {
+    const files: CodeFile[] = [];
+
+    // Lists one directory, collecting its files and returning its subdirectories
+    const scanDir = async (dir: string): Promise<string[]> => {
+        const subdirectories: string[] = [];
+        try {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                // Symbolic links are followed, as their targets decide what they are
+                const target = entry.isSymbolicLink() ? await fs.promises.stat(fullPath).catch(() => undefined) : entry;
+                if (!target) {
+                    continue;
+                }
+
+                // Skip ignored files/directories and files outside the whitelist
+                if (matcher.isExcluded(fullPath, target.isDirectory())) {
+                    continue;
+                }
+
+                if (target.isDirectory()) {
+                    subdirectories.push(fullPath);
+                } else if (target.isFile()) {
+                    const language = registry.detect(fullPath);
+                    if (language) {
+                        files.push({ path: fullPath, language });
+                    }
+                }
+            }
+        } catch (error) {
+            // Ignore access errors
+        }
+        return subdirectories;
+    };
+
+    // One level of the tree at a time, with a bounded number of directories read in parallel
+    let level = [folderPath];
+    while (level.length > 0) {
+        level = (await mapWithConcurrency(level, SCAN_CONCURRENCY, scanDir)).flat();
+    }
+    return files;
+}